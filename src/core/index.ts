@@ -0,0 +1,99 @@
+// React-free entry point - the chat controller, its state, transport and
+// types, for Node scripts, tests and other UI frameworks
+export { ChatController } from "../react/chat-controller";
+export { DedalusChatState } from "../react/chat-state";
+export type { QueuedMessage } from "../react/chat-state";
+export { ChatStore } from "../react/chat-store";
+export type { ChatStoreEntry } from "../react/chat-store";
+export {
+  LocalStorageChatStorage,
+  IndexedDBChatStorage,
+} from "../react/chat-storage";
+export type {
+  LocalStorageChatStorageOptions,
+  IndexedDBChatStorageOptions,
+} from "../react/chat-storage";
+export { prepareRequest, resolveTransport } from "../react/transport";
+export type {
+  PrepareRequestOptions,
+  PreparedRequest,
+  ResolvedTransport,
+} from "../react/transport";
+export { parsePartialJson } from "../react/parse-partial-json";
+export { validate, ValidationError } from "../react/validate";
+export {
+  DedalusStreamError,
+  DedalusHTTPError,
+  AttachmentError,
+  ChatBusyError,
+} from "../react/errors";
+export type { StreamErrorPayload } from "../react/errors";
+export { parseSSEEvents } from "../react/parse-sse-events";
+export type { SSEEvent } from "../react/parse-sse-events";
+export type {
+  Validator,
+  ValidationResult,
+  StandardSchemaLike,
+  SafeParseSchemaLike,
+} from "../react/validate";
+export type {
+  // Chat types
+  Message,
+  MessageParam,
+  MessageInput,
+  MessageMetadata,
+  MessageBranches,
+  Attachment,
+  AttachmentOptions,
+  DedalusChatStatus,
+  ChatConcurrency,
+  ChatConcurrencyStatus,
+  ChatRequestOptions,
+  SendMessageOptions,
+  ChatControllerOptions,
+  IdGenerator,
+  // Structured output types
+  DeepPartial,
+  ResponseFormat,
+  // Persistence types
+  ChatStorage,
+  ChatSnapshot,
+  // Transport types
+  Resolvable,
+  TransportConfig,
+  PrepareRequestBodyOptions,
+  ReconnectOptions,
+  RetryOptions,
+  // Tool calling and auto-send types
+  ToolCall,
+  OnFinishOptions,
+  OnErrorOptions,
+  FinishReason,
+  OnToolCallOptions,
+  OnToolCallDeltaOptions,
+  SendAutomaticallyWhenOptions,
+  AddToolResultOptions,
+  AddToolErrorOptions,
+  ToolInvocation,
+  ToolInvocationState,
+  ToolCallTiming,
+  ClientTool,
+  ClientTools,
+  ClientToolExecuteOptions,
+  ToolErrorType,
+  ToolApprovalState,
+  ToolErrorResult,
+  // Re-exported from dedalus-labs SDK (type-only, no runtime impact)
+  StreamChunk,
+  CompletionUsage,
+  ChatCompletionUserMessageParam,
+  ChatCompletionAssistantMessageParam,
+  ChatCompletionSystemMessageParam,
+  ChatCompletionToolMessageParam,
+  ChatCompletionDeveloperMessageParam,
+  ChatCompletionFunctionMessageParam,
+  ChoiceDelta,
+  ChoiceDeltaToolCall,
+  ResponseFormatJSONObject,
+  ResponseFormatJSONSchema,
+} from "../react/types";
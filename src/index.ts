@@ -1,3 +1,4 @@
 // Main entry point - exports React utilities
+// React-free chat logic is available via "dedalus-react/core"
 // Server utilities are available via "dedalus-react/server"
 export * from "./react";
@@ -0,0 +1,121 @@
+import { AttachmentError } from "./errors";
+import type {
+  Attachment,
+  AttachmentOptions,
+  ChatCompletionUserMessageParam,
+} from "./types";
+
+const DEFAULT_MAX_SIZE_BYTES = 20 * 1024 * 1024;
+const DEFAULT_ACCEPTED_TYPES = ["image/*"];
+
+type UserContentPart = Exclude<
+  ChatCompletionUserMessageParam["content"],
+  string
+>[number];
+
+/**
+ * Check a MIME type against patterns like `image/png` or `image/*`.
+ */
+function matchesType(contentType: string, patterns: string[]): boolean {
+  return patterns.some((pattern) =>
+    pattern.endsWith("/*")
+      ? contentType.startsWith(pattern.slice(0, -1))
+      : contentType === pattern
+  );
+}
+
+/**
+ * Read a file as a base64 data URL.
+ */
+function readAsDataURL(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Validate files and turn them into attachments. Every file is checked
+ * before any is read or uploaded, so a rejected file sends nothing.
+ * Throws an `AttachmentError` for the first file that fails.
+ */
+export async function prepareAttachments(
+  files: File[] | FileList,
+  options: AttachmentOptions = {}
+): Promise<Attachment[]> {
+  const fileList = Array.from(files);
+  const maxSizeBytes = options.maxSizeBytes ?? DEFAULT_MAX_SIZE_BYTES;
+  const acceptedTypes = options.acceptedTypes ?? DEFAULT_ACCEPTED_TYPES;
+
+  for (const file of fileList) {
+    if (!matchesType(file.type, acceptedTypes)) {
+      throw new AttachmentError(
+        `"${file.name}" has an unsupported type (${file.type || "unknown"})`,
+        "unsupported_type",
+        file
+      );
+    }
+    if (file.size > maxSizeBytes) {
+      throw new AttachmentError(
+        `"${file.name}" is larger than ${maxSizeBytes} bytes`,
+        "file_too_large",
+        file
+      );
+    }
+  }
+
+  return Promise.all(
+    fileList.map(async (file) => {
+      let url: string;
+      // Only images can be sent by URL; other files are always inline
+      if (options.upload && file.type.startsWith("image/")) {
+        try {
+          url = await options.upload(file);
+        } catch (err) {
+          throw new AttachmentError(
+            `Uploading "${file.name}" failed: ${
+              err instanceof Error ? err.message : String(err)
+            }`,
+            "upload_failed",
+            file
+          );
+        }
+      } else {
+        url = await readAsDataURL(file);
+      }
+      return { name: file.name, contentType: file.type, size: file.size, url };
+    })
+  );
+}
+
+/**
+ * Build the content of a user message from its text and attachments:
+ * `image_url` parts for images and `file` parts for other files.
+ */
+export function toUserContent(
+  content: ChatCompletionUserMessageParam["content"],
+  attachments: Attachment[]
+): ChatCompletionUserMessageParam["content"] {
+  if (attachments.length === 0) return content;
+
+  const parts: UserContentPart[] = [];
+  if (typeof content !== "string") {
+    parts.push(...content);
+  } else if (content) {
+    parts.push({ type: "text", text: content });
+  }
+
+  for (const attachment of attachments) {
+    parts.push(
+      attachment.contentType.startsWith("image/")
+        ? { type: "image_url", image_url: { url: attachment.url } }
+        : {
+            type: "file",
+            file: { file_data: attachment.url, filename: attachment.name },
+          }
+    );
+  }
+  return parts;
+}
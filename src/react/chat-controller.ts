@@ -0,0 +1,1207 @@
+import { prepareAttachments, toUserContent } from "./attachments";
+import type { DedalusChatState } from "./chat-state";
+import { attachChatStorage } from "./chat-storage";
+import { createChatStoreEntry, type ChatStoreEntry } from "./chat-store";
+import {
+  createToolErrorResult,
+  createToolMessage,
+  executeClientTool,
+} from "./client-tools";
+import {
+  ChatBusyError,
+  DedalusHTTPError,
+  DedalusStreamError,
+  type StreamErrorPayload,
+} from "./errors";
+import { parseSSEStream } from "./parse-sse-stream";
+import {
+  createToolArgsParser,
+  getToolInvocations,
+} from "./tool-invocations";
+import {
+  fetchResponse,
+  fetchWithRetry,
+  getResponseBody,
+  isJsonResponse,
+  prepareRequest,
+  readJsonCompletion,
+  wait,
+} from "./transport";
+import type {
+  AddToolErrorOptions,
+  AddToolResultOptions,
+  Attachment,
+  ChatCompletion,
+  ChatCompletionAssistantMessageParam,
+  ChatCompletionToolMessageParam,
+  ChatConcurrencyStatus,
+  ChatControllerOptions,
+  ChatRequestOptions,
+  ChoiceDelta,
+  CompletionUsage,
+  DedalusChatStatus,
+  FinishReason,
+  Message,
+  MessageInput,
+  MessageMetadata,
+  MessageParam,
+  SendMessageOptions,
+  StreamChunk,
+  ToolApprovalState,
+  ToolCall,
+  ToolCallTiming,
+  ToolInvocation,
+} from "./types";
+
+/**
+ * Default ID generator using crypto.randomUUID
+ */
+export const defaultGenerateId = (): string => crypto.randomUUID();
+
+const DEFAULT_RECONNECT_ATTEMPTS = 3;
+const DEFAULT_RECONNECT_DELAY_MS = 1000;
+
+/**
+ * Check if a tool call accumulator has all required fields
+ */
+function isCompleteToolCall(tc: ToolCall): tc is ToolCall {
+  return Boolean(tc.id && tc.function.name && tc.function.arguments);
+}
+
+/**
+ * Check whether the last assistant message has tool calls still waiting
+ * for results.
+ */
+function hasPendingToolCalls(messages: Message<unknown>[]): boolean {
+  const answeredIds = new Set<string>();
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.role === "tool") {
+      answeredIds.add(message.tool_call_id);
+    } else if (message.role === "assistant") {
+      return (message.tool_calls ?? []).some((tc) => !answeredIds.has(tc.id));
+    }
+  }
+  return false;
+}
+
+/**
+ * Check whether the automatic send loop may go on to `step`.
+ */
+function isStepAllowed(step: number, maxSteps: number | undefined): boolean {
+  return maxSteps === undefined || step < maxSteps;
+}
+
+/**
+ * Strip client-side fields (id, metadata, attachments, toolApprovals, step)
+ * to get the wire-format message.
+ */
+function toMessageParam(message: Message<unknown>): MessageParam {
+  const {
+    id: _id,
+    metadata: _metadata,
+    attachments: _attachments,
+    toolApprovals: _toolApprovals,
+    step: _step,
+    ...param
+  } = message;
+  return param as MessageParam;
+}
+
+/**
+ * Add two token usage reports. Detail breakdowns are not summed.
+ */
+function addUsage(
+  total: CompletionUsage | undefined,
+  usage: CompletionUsage
+): CompletionUsage {
+  return {
+    prompt_tokens: (total?.prompt_tokens ?? 0) + usage.prompt_tokens,
+    completion_tokens: (total?.completion_tokens ?? 0) + usage.completion_tokens,
+    total_tokens: (total?.total_tokens ?? 0) + usage.total_tokens,
+  };
+}
+
+/**
+ * Turn a non-streaming ChatCompletion into a single stream chunk carrying
+ * every choice whole.
+ */
+function completionToChunk(completion: ChatCompletion): StreamChunk {
+  return {
+    id: completion.id,
+    model: completion.model,
+    created: completion.created,
+    object: "chat.completion.chunk",
+    choices: completion.choices.map((choice) => {
+      const toolCalls = (choice.message.tool_calls ?? []).flatMap((tc, index) =>
+        tc.type === "function"
+          ? [
+              {
+                index,
+                id: tc.id,
+                type: tc.type,
+                function: {
+                  name: tc.function.name,
+                  arguments: tc.function.arguments,
+                },
+              },
+            ]
+          : []
+      );
+      return {
+        index: choice.index,
+        delta: {
+          role: "assistant",
+          content: choice.message.content,
+          ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+        },
+        finish_reason: choice.finish_reason ?? null,
+      };
+    }),
+    usage: completion.usage,
+  };
+}
+
+/**
+ * Streamed state of one choice of a response. Choice 0 fills the active
+ * assistant message; other choices (with `n > 1`) fill sibling versions.
+ */
+interface ChoiceAccumulator {
+  messageId: string;
+  step: number;
+  content: string;
+  toolCalls: ToolCall[];
+}
+
+/**
+ * Merge a delta into a choice and return its updated assistant message.
+ */
+function accumulateDelta(
+  choice: ChoiceAccumulator,
+  delta: ChoiceDelta
+): ChatCompletionAssistantMessageParam & { step: number } {
+  // Accumulate content
+  if (delta.content) {
+    choice.content += delta.content;
+  }
+
+  // Accumulate tool calls (index-based merging per OpenAI spec)
+  for (const tc of delta.tool_calls ?? []) {
+    const existing: ToolCall = choice.toolCalls[tc.index] ?? {
+      id: "",
+      type: "function",
+      function: {
+        name: "",
+        arguments: "",
+      },
+    };
+
+    // Replace rather than mutate: the state stores messages as given, so
+    // earlier snapshots share these objects
+    choice.toolCalls[tc.index] = {
+      ...existing,
+      id: tc.id || existing.id,
+      function: {
+        name: existing.function.name + (tc.function?.name ?? ""),
+        arguments: existing.function.arguments + (tc.function?.arguments ?? ""),
+      },
+    };
+  }
+
+  return {
+    role: "assistant",
+    content: choice.content || null,
+    ...(choice.toolCalls.length > 0 && {
+      tool_calls: choice.toolCalls.filter(Boolean),
+    }),
+    step: choice.step,
+  };
+}
+
+/**
+ * Framework-agnostic chat client: sends messages, streams responses into a
+ * `DedalusChatState`, runs tools and drives the automatic send loop.
+ *
+ * `useChat` is a thin React adapter over this class. Use it directly in Node
+ * scripts, tests or other UI frameworks, and `subscribe` to be told when
+ * anything changes.
+ *
+ * Options and callbacks are read when they are needed, so `setOptions`
+ * takes effect from the next request or callback.
+ *
+ * @example
+ * ```ts
+ * const chat = new ChatController({
+ *   transport: { api: 'https://example.com/api/chat' },
+ *   tools: { getWeather },
+ *   sendAutomaticallyWhen: ({ messages }) =>
+ *     messages[messages.length - 1]?.role === 'tool',
+ * })
+ *
+ * const unsubscribe = chat.subscribe(() => {
+ *   console.log(chat.status, chat.messages.at(-1)?.content)
+ * })
+ *
+ * await chat.sendMessage('What is the weather in Paris?')
+ * unsubscribe()
+ * ```
+ */
+export class ChatController<METADATA = MessageMetadata> {
+  /**
+   * The chat this controller drives. Controllers created over the same
+   * entry share its state and in-flight request.
+   */
+  readonly chat: ChatStoreEntry<METADATA>;
+  #options: ChatControllerOptions<METADATA>;
+  #toolInvocations?: {
+    messages: Message<METADATA>[];
+    toolTimings: Record<string, ToolCallTiming>;
+    isStreaming: boolean;
+    value: ToolInvocation[];
+  };
+  #parseToolArgs = createToolArgsParser();
+
+  /**
+   * @param chat - Existing chat to drive, e.g. one from a `ChatStore`.
+   *   Defaults to a new chat with `options.id` and `options.messages`. An
+   *   existing chat is left untouched until `setOptions` applies
+   *   `throttleMs` to it.
+   */
+  constructor(
+    options: ChatControllerOptions<METADATA>,
+    chat?: ChatStoreEntry<METADATA>
+  ) {
+    this.#options = options;
+    if (chat) {
+      this.chat = chat;
+      return;
+    }
+    const generateId = options.generateId ?? defaultGenerateId;
+    this.chat = createChatStoreEntry(
+      options.id ?? generateId(),
+      options.messages,
+      generateId
+    );
+    this.state.throttleMs = options.throttleMs;
+  }
+
+  get id(): string {
+    return this.chat.id;
+  }
+
+  get state(): DedalusChatState<METADATA> {
+    return this.chat.state;
+  }
+
+  get messages(): Message<METADATA>[] {
+    return this.state.messages;
+  }
+
+  get status(): DedalusChatStatus {
+    return this.state.status;
+  }
+
+  get error(): Error | undefined {
+    return this.state.error;
+  }
+
+  get lastUsage(): CompletionUsage | undefined {
+    return this.state.usage.last;
+  }
+
+  get totalUsage(): CompletionUsage | undefined {
+    return this.state.usage.total;
+  }
+
+  get queuedMessages(): Message<METADATA>[] {
+    return this.state.getQueueSnapshot();
+  }
+
+  get concurrencyStatus(): ChatConcurrencyStatus {
+    return this.state.concurrencyStatus;
+  }
+
+  /**
+   * Every tool call on the active path with its current state. Derived
+   * when read, and keeps its identity until the messages, tool call timings
+   * or status change. Arguments are only parsed again when they changed.
+   */
+  get toolInvocations(): ToolInvocation[] {
+    const { messages, toolTimings } = this.state;
+    const isStreaming =
+      this.status === "submitted" || this.status === "streaming";
+    const cached = this.#toolInvocations;
+    if (
+      cached?.messages === messages &&
+      cached.toolTimings === toolTimings &&
+      cached.isStreaming === isStreaming
+    ) {
+      return cached.value;
+    }
+    const value = getToolInvocations(
+      messages,
+      toolTimings,
+      isStreaming,
+      this.#parseToolArgs
+    );
+    this.#toolInvocations = { messages, toolTimings, isStreaming, value };
+    return value;
+  }
+
+  /**
+   * Replace the options. Takes effect from the next request or callback.
+   */
+  setOptions = (options: ChatControllerOptions<METADATA>): void => {
+    this.#options = options;
+    this.state.throttleMs = options.throttleMs;
+  };
+
+  /**
+   * Call `callback` whenever the messages, status, error, usage, queue,
+   * concurrency status or tool call timings change. Returns a function that
+   * unsubscribes.
+   */
+  subscribe = (callback: () => void): (() => void) => {
+    const unsubscribes = [
+      this.state.subscribeMessages(callback),
+      this.state.subscribeStatus(callback),
+      this.state.subscribeError(callback),
+      this.state.subscribeUsage(callback),
+      this.state.subscribeQueue(callback),
+      this.state.subscribeToolTimings(callback),
+      this.state.subscribeConcurrencyStatus(callback),
+    ];
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  };
+
+  /**
+   * Load the saved chat from `options.storage`, then save whenever messages
+   * change outside of a stream. Returns a function that stops saving.
+   *
+   * Controllers sharing a chat attach its storage once: it stays attached
+   * until every one of them has detached.
+   */
+  attachStorage = (): (() => void) => {
+    if (!this.#options.storage) return () => {};
+    const chat = this.chat;
+
+    if (chat.storageUsers++ === 0) {
+      const { loaded, detach } = attachChatStorage(
+        chat.state,
+        chat.id,
+        () => ({
+          storage: this.#options.storage!,
+          persistPartialMessages: this.#options.persistPartialMessages ?? false,
+        }),
+        (error) =>
+          this.#options.onError?.(error, { attempt: 1, willRetry: false })
+      );
+      chat.loaded = loaded;
+      chat.detachStorage = detach;
+    }
+
+    return () => {
+      if (--chat.storageUsers === 0) {
+        chat.detachStorage?.();
+        chat.detachStorage = undefined;
+      }
+    };
+  };
+
+  /**
+   * Abort the in-flight request and drop queued messages.
+   */
+  stop = (): void => {
+    // Stopping also drops messages queued behind the current response
+    this.state.clearQueue();
+    if (this.chat.abortController) {
+      this.chat.abortController.abort();
+      this.chat.abortController = null;
+    }
+    this.state.status = "ready";
+  };
+
+  setMessages = (
+    messagesOrUpdater:
+      | MessageInput<METADATA>[]
+      | ((messages: Message<METADATA>[]) => MessageInput<METADATA>[])
+  ): void => {
+    if (typeof messagesOrUpdater === "function") {
+      this.state.messages = messagesOrUpdater(this.state.messages);
+    } else {
+      this.state.messages = messagesOrUpdater;
+    }
+  };
+
+  sendMessage = async (
+    messageInput: MessageInput<METADATA> | string,
+    requestOptions?: SendMessageOptions
+  ): Promise<void> => {
+    // Send after the saved chat is restored, so it isn't dropped
+    await this.#whenLoaded();
+
+    const { state } = this;
+    const { generateId = defaultGenerateId } = this.#options;
+
+    // Normalize string input to Message
+    let userMessage: MessageInput<METADATA> =
+      typeof messageInput === "string"
+        ? { role: "user", content: messageInput }
+        : messageInput;
+
+    const { attachments: files, ...chatRequestOptions } = requestOptions ?? {};
+    if (files && files.length > 0 && userMessage.role === "user") {
+      let attachments: Attachment[];
+      try {
+        attachments = await prepareAttachments(
+          files,
+          this.#options.attachments
+        );
+      } catch (err) {
+        // Leaves the status alone while another response streams
+        this.#reportError(err);
+        return;
+      }
+      userMessage = {
+        ...userMessage,
+        content: toUserContent(userMessage.content, attachments),
+        attachments: [...(userMessage.attachments ?? []), ...attachments],
+      };
+    }
+
+    // A response may still be in flight
+    const canSend = this.#admitRequest(() => {
+      state.enqueueMessage(
+        { ...userMessage, id: userMessage.id ?? generateId() },
+        chatRequestOptions
+      );
+    });
+    if (!canSend) return;
+
+    // Add user message to state
+    state.pushMessage(userMessage);
+
+    // Perform the request
+    await this.#performRequest(chatRequestOptions);
+  };
+
+  regenerate = async (requestOptions?: ChatRequestOptions): Promise<void> => {
+    await this.#whenLoaded();
+    const currentMessages = this.state.messages;
+
+    let lastUserIndex = currentMessages.length - 1;
+    while (
+      lastUserIndex >= 0 &&
+      currentMessages[lastUserIndex].role !== "user"
+    ) {
+      lastUserIndex--;
+    }
+    if (lastUserIndex === -1) return;
+
+    // There is no message to queue, so "queue" rejects like "reject"
+    if (!this.#admitRequest()) return;
+
+    // Rewind past the previous answer; the new one becomes a sibling version
+    this.state.rewindTo(currentMessages[lastUserIndex].id);
+
+    await this.#performRequest(requestOptions);
+  };
+
+  editMessage = async (
+    messageId: string,
+    messageInput: MessageInput<METADATA> | string,
+    requestOptions?: ChatRequestOptions
+  ): Promise<void> => {
+    await this.#whenLoaded();
+    const parentId = this.state.getParentId(messageId);
+    if (parentId === undefined) return;
+
+    const editedMessage: MessageInput<METADATA> =
+      typeof messageInput === "string"
+        ? { role: "user", content: messageInput }
+        : messageInput;
+
+    const { id: _id, ...rest } = editedMessage;
+    const edit = rest as MessageInput<METADATA>;
+
+    // Edited prompts get a fresh answer, so they follow `concurrency`;
+    // a queued edit becomes a sibling version when it is sent
+    if (editedMessage.role === "user") {
+      const canSend = this.#admitRequest(() => {
+        this.state.enqueueMessage(edit, requestOptions, parentId);
+      });
+      if (!canSend) return;
+    }
+
+    // Add the edit as a sibling version of the original message
+    this.state.rewindTo(parentId);
+    this.state.pushMessage(edit);
+
+    // Other edits are just saved
+    if (editedMessage.role === "user") {
+      await this.#performRequest(requestOptions);
+    }
+  };
+
+  /**
+   * Make the sibling version at `index` active. If the new path ends with
+   * a candidate from an `n > 1` response that completed in this session,
+   * its tool calls are handled as if it had just streamed. Tool calls of
+   * stopped or restored responses stay pending.
+   */
+  switchBranch = (messageId: string, index: number): void => {
+    const { chat, state } = this;
+    state.switchBranch(messageId, index);
+    if (chat.abortController) return;
+
+    const last = state.messages[state.messages.length - 1];
+    const toolCalls = last && chat.candidateToolCalls.get(last.id);
+    if (!toolCalls) return;
+    chat.candidateToolCalls.delete(last.id);
+    this.#handleToolCalls(last.id, toolCalls);
+  };
+
+  addToolResult = ({ toolCallId, result }: AddToolResultOptions): void => {
+    // Create tool message and add to messages
+    this.state.pushMessage(createToolMessage(toolCallId, result));
+
+    // Check if should auto-send
+    this.#continueAfterToolResults().catch(this.#reportError);
+  };
+
+  addToolError = ({
+    toolCallId,
+    error,
+    type = "execution_error",
+  }: AddToolErrorOptions): void => {
+    this.state.pushMessage(
+      createToolMessage(
+        toolCallId,
+        createToolErrorResult(
+          type,
+          error instanceof Error ? error.message : String(error)
+        )
+      )
+    );
+
+    this.#continueAfterToolResults().catch(this.#reportError);
+  };
+
+  approveToolCall = async (toolCallId: string): Promise<void> => {
+    const pending = this.#findPendingApproval(toolCallId);
+    if (!pending) return;
+    this.#setApprovalState(pending.message.id, toolCallId, "approved");
+    this.state.recordToolTiming(toolCallId, { runningAt: Date.now() });
+
+    this.state.pushMessage(
+      await executeClientTool(this.#options.tools ?? {}, pending.toolCall)
+    );
+    await this.#continueAfterToolResults().catch(this.#reportError);
+  };
+
+  denyToolCall = (toolCallId: string, reason?: string): void => {
+    const pending = this.#findPendingApproval(toolCallId);
+    if (!pending) return;
+    this.#setApprovalState(pending.message.id, toolCallId, "denied");
+
+    this.state.pushMessage(
+      createToolMessage(
+        toolCallId,
+        createToolErrorResult(
+          "denied",
+          reason ??
+            `The user denied the call to "${pending.toolCall.function.name}"`
+        )
+      )
+    );
+    this.#continueAfterToolResults().catch(this.#reportError);
+  };
+
+  /**
+   * Apply `concurrency` to a request that would start while another is in
+   * flight. Returns true to send now; otherwise the request was queued with
+   * `enqueue` or rejected. Without `enqueue`, `"queue"` rejects.
+   */
+  #admitRequest(enqueue?: () => void): boolean {
+    const { chat, state } = this;
+    if (!chat.abortController) return true;
+
+    const { concurrency = "queue" } = this.#options;
+    if (concurrency === "interrupt") {
+      // The aborted request leaves the status to this one
+      chat.abortController.abort();
+      chat.abortController = null;
+      state.concurrencyStatus = "interrupted";
+      return true;
+    }
+    if (concurrency === "queue" && enqueue) {
+      enqueue();
+      return false;
+    }
+
+    state.concurrencyStatus = "rejected";
+    this.#options.onError?.(
+      new ChatBusyError("A response is already in progress"),
+      { attempt: 1, willRetry: false }
+    );
+    return false;
+  }
+
+  /**
+   * Report an error that didn't come from a request, such as a rejected
+   * attachment, tool execution or the automatic send after tool results.
+   * Sets `error` unless a request is in flight.
+   */
+  #reportError = (err: unknown): void => {
+    const error = err instanceof Error ? err : new Error(String(err));
+    if (!this.chat.abortController) {
+      this.state.error = error;
+      this.state.status = "error";
+    }
+    this.#options.onError?.(error, { attempt: 1, willRetry: false });
+  };
+
+  /**
+   * Resolve once loading from `storage` has settled, even if the status
+   * changed meanwhile.
+   */
+  #whenLoaded(): Promise<void> {
+    return this.chat.loaded ?? Promise.resolve();
+  }
+
+  /**
+   * Find a tool call waiting for approval and the message holding it.
+   */
+  #findPendingApproval(toolCallId: string) {
+    for (const message of this.state.messages) {
+      if (
+        message.role !== "assistant" ||
+        message.toolApprovals?.[toolCallId] !== "pending"
+      ) {
+        continue;
+      }
+      const toolCall = message.tool_calls?.find((tc) => tc.id === toolCallId);
+      if (toolCall?.type === "function") return { message, toolCall };
+    }
+    return undefined;
+  }
+
+  #setApprovalState(
+    messageId: string,
+    toolCallId: string,
+    approval: ToolApprovalState
+  ): void {
+    this.state.updateMessage(messageId, (message) => ({
+      ...message,
+      toolApprovals: { ...message.toolApprovals, [toolCallId]: approval },
+    }));
+  }
+
+  /**
+   * Run, hold for approval or report the tool calls of an assistant
+   * message. Incomplete calls and calls already handled (including ones the
+   * server answered) are skipped. Returns true if tools started running;
+   * the chat continues once their results are added.
+   */
+  #handleToolCalls(messageId: string, toolCalls: ToolCall[]): boolean {
+    const { chat, state } = this;
+    const { tools, onToolCall } = this.#options;
+    const clientToolCalls: ToolCall[] = [];
+    const approvalToolCallIds: string[] = [];
+    for (const toolCall of toolCalls) {
+      if (
+        !isCompleteToolCall(toolCall) ||
+        chat.notifiedToolCallIds.has(toolCall.id)
+      ) {
+        continue;
+      }
+
+      const isRegistered =
+        tools !== undefined &&
+        Object.prototype.hasOwnProperty.call(tools, toolCall.function.name);
+
+      if (isRegistered && tools[toolCall.function.name].requiresApproval) {
+        // Held until approveToolCall or denyToolCall
+        chat.notifiedToolCallIds.add(toolCall.id);
+        approvalToolCallIds.push(toolCall.id);
+      } else if (tools && (isRegistered || !onToolCall)) {
+        // Registered tools run automatically; unknown ones get an error result
+        chat.notifiedToolCallIds.add(toolCall.id);
+        clientToolCalls.push(toolCall);
+      } else if (onToolCall) {
+        chat.notifiedToolCallIds.add(toolCall.id);
+        state.recordToolTiming(toolCall.id, { runningAt: Date.now() });
+        // Fire and forget - don't await to allow parallel tool execution
+        try {
+          Promise.resolve(onToolCall({ toolCall })).catch(this.#reportError);
+        } catch (err) {
+          this.#reportError(err);
+        }
+      }
+    }
+
+    if (approvalToolCallIds.length > 0) {
+      state.updateMessage(messageId, (message) => ({
+        ...message,
+        toolApprovals: {
+          ...message.toolApprovals,
+          ...Object.fromEntries(
+            approvalToolCallIds.map((id) => [id, "pending" as const])
+          ),
+        },
+      }));
+    }
+
+    if (tools && clientToolCalls.length > 0) {
+      // Run in parallel, then add all results before checking auto-send once
+      void Promise.all(
+        clientToolCalls.map((toolCall) => {
+          state.recordToolTiming(toolCall.id, { runningAt: Date.now() });
+          return executeClientTool(tools, toolCall);
+        })
+      )
+        .then(async (toolMessages) => {
+          toolMessages.forEach((toolMessage) => state.pushMessage(toolMessage));
+          await this.#continueAfterToolResults();
+        })
+        .catch(this.#reportError);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Send the oldest queued message once the chat is idle: no request in
+   * flight and no tool calls waiting for results.
+   */
+  async #sendQueuedMessage(): Promise<void> {
+    if (
+      this.chat.abortController ||
+      hasPendingToolCalls(this.state.messages)
+    ) {
+      return;
+    }
+    const next = this.state.dequeueMessage();
+    if (!next) return;
+    if (next.parentId !== undefined) this.state.rewindTo(next.parentId);
+    this.state.pushMessage(next.message);
+    await this.#performRequest(next.options);
+  }
+
+  /**
+   * After tool results are added, auto-send or send the next queued message,
+   * once every tool call of the last response has a result.
+   */
+  async #continueAfterToolResults(): Promise<void> {
+    if (hasPendingToolCalls(this.state.messages)) return;
+    const nextStep = this.chat.step + 1;
+    const shouldAutoSend =
+      isStepAllowed(nextStep, this.#options.maxSteps) &&
+      (await this.#options.sendAutomaticallyWhen?.({
+        messages: this.state.messages,
+      }));
+    if (shouldAutoSend) {
+      // Auto-send without adding a new user message
+      await this.#performRequest(undefined, nextStep);
+    } else {
+      await this.#sendQueuedMessage();
+    }
+  }
+
+  /**
+   * Send a request for the current messages and stream the response.
+   * `step` is the step of the automatic send loop, 0 unless the request is
+   * an automatic resend.
+   */
+  async #performRequest(
+    requestOptions?: ChatRequestOptions,
+    step = 0
+  ): Promise<void> {
+    const { chat, state } = this;
+    state.status = "submitted";
+    state.error = undefined;
+    chat.step = step;
+
+    // Create abort controller for this request
+    const abortController = new AbortController();
+    chat.abortController = abortController;
+
+    // Reset notified tool calls for new request
+    chat.notifiedToolCallIds = new Set();
+
+    let isAbort = false;
+    let isDisconnect = false;
+    let isError = false;
+    let attempt = 1;
+
+    // Response details collected from the stream, reported to onFinish
+    let finishReason: FinishReason | undefined;
+    let usage: CompletionUsage | undefined;
+    let model: string | undefined;
+    let completionId: string | undefined;
+
+    // Reported to onFinish: the latest assistant message of this response,
+    // or the last message sent if none was added yet. Looked up by id, since
+    // an interrupting send may have added messages after it.
+    const lastSentMessage = state.messages[state.messages.length - 1];
+    let assistantMessageId: string | undefined;
+    const getFinishMessage = (): Message<METADATA> =>
+      (assistantMessageId !== undefined &&
+        state.getMessage(assistantMessageId)) ||
+      lastSentMessage;
+
+    try {
+      const { transport: resolvedTransport, init: requestInit } =
+        prepareRequest(this.#options.transport, {
+          id: chat.id,
+          // Wire format, without client-side fields
+          messages: state.messages.map(toMessageParam),
+          requestOptions,
+          signal: abortController.signal,
+        });
+
+      // Make request, retrying failures before anything has streamed
+      const response = await fetchWithRetry(
+        resolvedTransport,
+        requestInit,
+        abortController.signal,
+        (err, failedAttempt) => {
+          this.#options.onError?.(err, {
+            attempt: failedAttempt,
+            willRetry: true,
+          });
+          attempt = failedAttempt + 1;
+        }
+      );
+
+      // Non-streaming servers answer with the whole ChatCompletion. Read it
+      // first, so a body without choices fails before any message is added.
+      const completionChunk = isJsonResponse(response)
+        ? completionToChunk(await readJsonCompletion(response))
+        : undefined;
+
+      // Create placeholder assistant message
+      const assistantMessage: MessageInput<METADATA> = {
+        role: "assistant",
+        content: "",
+        step,
+      };
+      const createChoice = (messageId: string): ChoiceAccumulator => ({
+        messageId,
+        step,
+        content: "",
+        toolCalls: [],
+      });
+      const startAssistantMessage = (): ChoiceAccumulator => {
+        assistantMessageId = state.pushMessage(assistantMessage).id;
+        return createChoice(assistantMessageId);
+      };
+
+      // Process stream, accumulating each choice by its index
+      let choices = new Map([[0, startAssistantMessage()]]);
+      state.status = "streaming";
+      // Set after server-side tool results; the next chunk starts a new step
+      let awaitingAssistant = false;
+
+      const applyChunk = (chunk: StreamChunk): void => {
+        if (chunk.id) completionId = chunk.id;
+        if (chunk.model) model = chunk.model;
+        if (chunk.usage) {
+          // Server-side tool loops report usage once per model call
+          usage = addUsage(usage, chunk.usage);
+          state.usage = {
+            last: usage,
+            total: addUsage(state.usage.total, chunk.usage),
+          };
+        }
+
+        for (const chunkChoice of chunk.choices ?? []) {
+          const index = chunkChoice.index ?? 0;
+          if (index === 0 && chunkChoice.finish_reason) {
+            finishReason = chunkChoice.finish_reason;
+          }
+          if (!chunkChoice.delta) continue;
+
+          if (awaitingAssistant) {
+            awaitingAssistant = false;
+            choices = new Map([[0, startAssistantMessage()]]);
+          }
+
+          const choice = choices.get(index);
+          if (choice) {
+            state.replaceMessage(
+              choice.messageId,
+              accumulateDelta(choice, chunkChoice.delta)
+            );
+
+            // Track the tool calls that will run and report their
+            // argument progress
+            if (index === 0) {
+              for (const tc of chunkChoice.delta.tool_calls ?? []) {
+                const toolCall = choice.toolCalls[tc.index];
+                if (toolCall.id) {
+                  state.recordToolTiming(toolCall.id, {
+                    startedAt: Date.now(),
+                  });
+                }
+                const { arguments: argumentsText } = toolCall.function;
+                const parseArgs = () =>
+                  this.#parseToolArgs(toolCall.id, argumentsText);
+                this.#options.onToolCallDelta?.({
+                  toolCall,
+                  messageId: choice.messageId,
+                  argumentsDelta: tc.function?.arguments ?? "",
+                  // Parsed on read, so callbacks that only use the text
+                  // don't parse the whole arguments for every chunk
+                  get partialArguments() {
+                    return parseArgs();
+                  },
+                });
+              }
+            }
+          } else {
+            // Extra candidates become inactive versions of choice 0
+            const candidate = createChoice("");
+            const message = accumulateDelta(candidate, chunkChoice.delta);
+            const stored = state.addSiblingMessage(
+              choices.get(0)!.messageId,
+              message
+            );
+            if (!stored) continue;
+            candidate.messageId = stored.id;
+            choices.set(index, candidate);
+          }
+        }
+      };
+
+      // Tool calls executed on the server (see `runTools`) arrive as
+      // `tool-result` events and are added like `addToolResult` would
+      const applyToolResult = (
+        toolMessage: ChatCompletionToolMessageParam
+      ): void => {
+        chat.notifiedToolCallIds.add(toolMessage.tool_call_id);
+        state.pushMessage({
+          role: "tool",
+          tool_call_id: toolMessage.tool_call_id,
+          content: toolMessage.content,
+        });
+        awaitingAssistant = true;
+      };
+
+      if (completionChunk) {
+        applyChunk(completionChunk);
+      } else {
+        // Resume state: the last event id seen, consecutive failed reconnects
+        // and the reconnection delay requested by the server with `retry:`
+        const reconnect = resolvedTransport.reconnect;
+        let lastEventId: string | undefined;
+        let reconnectAttempts = 0;
+        let serverRetryMs: number | undefined;
+        let responseBody: ReadableStream<Uint8Array> | undefined =
+          getResponseBody(response);
+
+        while (true) {
+          try {
+            if (!responseBody) {
+              // Reconnect and pick up after the last event we received
+              responseBody = getResponseBody(
+                await fetchResponse(
+                  resolvedTransport.fetch,
+                  resolvedTransport.api,
+                  {
+                    ...requestInit,
+                    headers: {
+                      ...(requestInit.headers as Record<string, string>),
+                      "Last-Event-ID": lastEventId!,
+                    },
+                  }
+                )
+              );
+            }
+
+            for await (const event of parseSSEStream(responseBody)) {
+              if (abortController.signal.aborted) {
+                isAbort = true;
+                break;
+              }
+              if (event.retry !== undefined) serverRetryMs = event.retry;
+              if (event.id !== undefined && event.id !== lastEventId) {
+                lastEventId = event.id;
+                reconnectAttempts = 0;
+              }
+              if (event.event === undefined) {
+                applyChunk(event.data);
+              } else if (event.event === "tool-result") {
+                applyToolResult(event.data as ChatCompletionToolMessageParam);
+              } else if (event.event === "error") {
+                throw new DedalusStreamError(
+                  event.data as Partial<StreamErrorPayload>
+                );
+              }
+            }
+            break;
+          } catch (err) {
+            // Only resumable streams (ones that sent event ids) can reconnect.
+            // Errors reported by the server are final, and so are 4xx
+            // answers to a resume, e.g. 404 once the buffer has expired.
+            const isFinal =
+              err instanceof DedalusStreamError ||
+              (err instanceof DedalusHTTPError &&
+                err.status >= 400 &&
+                err.status < 500);
+            const canReconnect =
+              !isFinal &&
+              reconnect !== false &&
+              lastEventId !== undefined &&
+              !abortController.signal.aborted &&
+              reconnectAttempts <
+                (reconnect.maxAttempts ?? DEFAULT_RECONNECT_ATTEMPTS);
+            if (!canReconnect) throw err;
+
+            reconnectAttempts++;
+            responseBody = undefined;
+            await wait(
+              reconnect.delayMs ?? serverRetryMs ?? DEFAULT_RECONNECT_DELAY_MS,
+              abortController.signal
+            );
+          }
+        }
+      }
+
+      // Finalize, unless a newer request has taken over the chat
+      if (chat.abortController === abortController) {
+        state.status = "ready";
+        chat.abortController = null;
+      }
+
+      // Handle each complete tool call (after stream ends)
+      // This ensures we have the complete tool call with all arguments.
+      // Stopped or interrupted responses don't run their tools. With
+      // several choices, the tool calls of choice 0 are handled now and
+      // those of other choices once they're picked with switchBranch.
+      const { messageId: firstMessageId, toolCalls } = choices.get(0)!;
+      for (const toolCall of toolCalls) {
+        if (toolCall?.id) {
+          state.recordToolTiming(toolCall.id, { argsCompletedAt: Date.now() });
+        }
+      }
+      if (!isAbort) {
+        for (const [index, choice] of choices) {
+          if (index !== 0 && choice.toolCalls.length > 0) {
+            chat.candidateToolCalls.set(choice.messageId, choice.toolCalls);
+          }
+        }
+      }
+      const isRunningTools =
+        !isAbort && this.#handleToolCalls(firstMessageId, toolCalls);
+
+      // The loop can't go on from the last allowed step, even if the
+      // response asks for tools
+      const canContinue = isStepAllowed(step + 1, this.#options.maxSteps);
+
+      // Check for auto-send after stream completes, unless tool calls are
+      // still waiting for results. Also checked at the step limit, to
+      // report whether the limit stopped the loop.
+      const wantsAutoSend =
+        !isAbort &&
+        !isError &&
+        !hasPendingToolCalls(state.messages) &&
+        Boolean(
+          await this.#options.sendAutomaticallyWhen?.({
+            messages: state.messages,
+          })
+        );
+
+      // Call onFinish callback
+      this.#options.onFinish?.({
+        message: getFinishMessage(),
+        messages: state.messages,
+        isAbort,
+        isDisconnect,
+        isError,
+        attempt,
+        step,
+        isStepLimitReached:
+          !isAbort &&
+          !canContinue &&
+          (wantsAutoSend || toolCalls.length > 0),
+        finishReason,
+        usage,
+        model,
+        completionId,
+      });
+
+      if (!isAbort && !isError) {
+        if (canContinue && wantsAutoSend) {
+          // Auto-send without adding a new user message
+          await this.#performRequest(requestOptions, step + 1);
+        } else if (!isRunningTools) {
+          await this.#sendQueuedMessage();
+        }
+      }
+    } catch (err) {
+      // Handle abort errors. Requests aborted by `stop` or by an
+      // interrupting message leave the status to whoever aborted them.
+      if (err instanceof Error && err.name === "AbortError") {
+        isAbort = true;
+        if (chat.abortController === abortController) {
+          state.status = "ready";
+          chat.abortController = null;
+        }
+
+        this.#options.onFinish?.({
+          message: getFinishMessage(),
+          messages: state.messages,
+          isAbort: true,
+          isDisconnect: false,
+          isError: false,
+          attempt,
+          step,
+          isStepLimitReached: false,
+          finishReason,
+          usage,
+          model,
+          completionId,
+        });
+        return;
+      }
+
+      isError = true;
+
+      // Detect network/disconnect errors
+      if (
+        err instanceof TypeError &&
+        (err.message.toLowerCase().includes("fetch") ||
+          err.message.toLowerCase().includes("network"))
+      ) {
+        isDisconnect = true;
+      }
+
+      const error = err instanceof Error ? err : new Error(String(err));
+      if (chat.abortController === abortController) {
+        state.error = error;
+        state.status = "error";
+        chat.abortController = null;
+      }
+
+      this.#options.onError?.(error, { attempt, willRetry: false });
+
+      this.#options.onFinish?.({
+        message: getFinishMessage(),
+        messages: state.messages,
+        isAbort,
+        isDisconnect,
+        isError,
+        attempt,
+        step,
+        isStepLimitReached: false,
+        finishReason,
+        usage,
+        model,
+        completionId,
+      });
+
+      await this.#sendQueuedMessage();
+    }
+  }
+}
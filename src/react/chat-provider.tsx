@@ -0,0 +1,51 @@
+"use client";
+import { createContext, useContext, useState, type ReactNode } from "react";
+import { ChatStore } from "./chat-store";
+
+const ChatStoreContext = createContext<ChatStore | null>(null);
+
+export interface ChatProviderProps {
+  children?: ReactNode;
+  /**
+   * The store to share chats through.
+   * Defaults to a new store owned by the provider.
+   */
+  store?: ChatStore;
+}
+
+/**
+ * Share chats between components.
+ *
+ * Inside a provider, every `useChat` call with the same `id` subscribes to
+ * one chat state and one in-flight request, so a sidebar, header and main
+ * thread can all read the conversation and `sendMessage` or `stop()` it.
+ * `useChat` calls without an `id` keep a private chat.
+ *
+ * @example
+ * ```tsx
+ * <ChatProvider>
+ *   <Header chatId={chatId} />
+ *   <Thread chatId={chatId} />
+ * </ChatProvider>
+ *
+ * function Header({ chatId }) {
+ *   const { messages, stop } = useChat({ id: chatId, transport })
+ *   // ...
+ * }
+ * ```
+ */
+export function ChatProvider({ children, store }: ChatProviderProps) {
+  const [defaultStore] = useState(() => new ChatStore());
+  return (
+    <ChatStoreContext.Provider value={store ?? defaultStore}>
+      {children}
+    </ChatStoreContext.Provider>
+  );
+}
+
+/**
+ * Get the store from the nearest `ChatProvider`, or null outside of one.
+ */
+export function useChatStore(): ChatStore | null {
+  return useContext(ChatStoreContext);
+}
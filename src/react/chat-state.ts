@@ -1,20 +1,96 @@
-import type { Message, DedalusChatStatus } from "./types";
+import type {
+  ChatConcurrencyStatus,
+  ChatRequestOptions,
+  ChatSnapshot,
+  ChatUsage,
+  Message,
+  MessageBranches,
+  MessageInput,
+  MessageMetadata,
+  DedalusChatStatus,
+  IdGenerator,
+  ToolCallTiming,
+} from "./types";
+
+/**
+ * A message in the conversation tree.
+ */
+interface MessageNode<METADATA> {
+  message: Message<METADATA>;
+  parentId: string | null;
+  childIds: string[];
+}
+
+/**
+ * A message waiting to be sent after the current response.
+ */
+export interface QueuedMessage<METADATA> {
+  message: Message<METADATA>;
+  options?: ChatRequestOptions;
+  /**
+   * For queued edits: the message to rewind to before sending, so the edit
+   * becomes a sibling version (null for the first message)
+   */
+  parentId?: string | null;
+}
 
 /**
  * External state store for React 18 useSyncExternalStore pattern.
- * Manages messages, status, and error state with subscription callbacks.
+ * Manages messages, status, error, usage, queued messages, the concurrency
+ * status and tool call timings with subscription callbacks.
+ *
+ * Every message held by the state has a stable `id`; messages added without
+ * one are assigned an id from `generateId`.
+ *
+ * Messages form a tree: editing a message or regenerating a response adds a
+ * sibling version instead of overwriting the old one. `messages` is the
+ * active path from the root to the current head, and is what gets sent.
+ *
+ * The active path is rebuilt lazily on read, so streaming updates to the last
+ * message don't copy the whole array per delta. With `throttleMs` set, those
+ * updates are also batched into one messages notification per interval.
  */
-export class DedalusChatState {
-  #messages: Message[];
+export class DedalusChatState<METADATA = MessageMetadata> {
+  #nodes = new Map<string, MessageNode<METADATA>>();
+  #rootIds: string[] = [];
+  /** Active child per parent id (null for the root level) */
+  #activeChildIds = new Map<string | null, string>();
+  #headId: string | null = null;
+  #messages: Message<METADATA>[] = [];
+  /** Set when the tree changed since `#messages` was last built */
+  #messagesStale = false;
+  /** Cancels the pending throttled messages notification, if any */
+  #cancelScheduledNotification: (() => void) | undefined;
+  #generateId: IdGenerator;
   #status: DedalusChatStatus = "ready";
   #error: Error | undefined = undefined;
+  #usage: ChatUsage = { last: undefined, total: undefined };
+  #queue: QueuedMessage<METADATA>[] = [];
+  #queuedMessages: Message<METADATA>[] = [];
+  #toolTimings: Record<string, ToolCallTiming> = {};
+  #concurrencyStatus: ChatConcurrencyStatus = "idle";
 
   #messagesCallbacks = new Set<() => void>();
   #statusCallbacks = new Set<() => void>();
   #errorCallbacks = new Set<() => void>();
+  #usageCallbacks = new Set<() => void>();
+  #queueCallbacks = new Set<() => void>();
+  #toolTimingsCallbacks = new Set<() => void>();
+  #concurrencyStatusCallbacks = new Set<() => void>();
 
-  constructor(initialMessages: Message[] = []) {
-    this.#messages = initialMessages;
+  /**
+   * Batch `replaceLastMessage` notifications: at most one per `throttleMs`
+   * milliseconds, or one per animation frame with "animationFrame".
+   * Notifications are immediate when undefined.
+   */
+  throttleMs: number | "animationFrame" | undefined;
+
+  constructor(
+    initialMessages: MessageInput<METADATA>[] = [],
+    generateId: IdGenerator = () => crypto.randomUUID(),
+  ) {
+    this.#generateId = generateId;
+    this.#resetTo(initialMessages);
   }
 
   get status(): DedalusChatStatus {
@@ -23,8 +99,30 @@ export class DedalusChatState {
 
   set status(newStatus: DedalusChatStatus) {
     if (this.#status === newStatus) return;
+    // Deliver batched message updates before subscribers see the new status,
+    // so a finished stream always renders its last delta
+    this.flush();
     this.#status = newStatus;
     this.#notifyStatusCallbacks();
+    // A finished response settles interrupts and rejections
+    const isSettled = newStatus === "ready" || newStatus === "error";
+    if (isSettled && this.#queue.length === 0) {
+      this.concurrencyStatus = "idle";
+    }
+  }
+
+  /**
+   * What the `concurrency` mode did with sends that arrived during a
+   * response. Set to `"queued"` while messages are queued.
+   */
+  get concurrencyStatus(): ChatConcurrencyStatus {
+    return this.#concurrencyStatus;
+  }
+
+  set concurrencyStatus(newStatus: ChatConcurrencyStatus) {
+    if (this.#concurrencyStatus === newStatus) return;
+    this.#concurrencyStatus = newStatus;
+    this.#concurrencyStatusCallbacks.forEach((callback) => callback());
   }
 
   get error(): Error | undefined {
@@ -36,32 +134,340 @@ export class DedalusChatState {
     this.#notifyErrorCallbacks();
   }
 
-  get messages(): Message[] {
+  get usage(): ChatUsage {
+    return this.#usage;
+  }
+
+  set usage(newUsage: ChatUsage) {
+    this.#usage = newUsage;
+    this.#notifyUsageCallbacks();
+  }
+
+  /**
+   * When each tool call's lifecycle steps happened, keyed by tool call id.
+   */
+  get toolTimings(): Record<string, ToolCallTiming> {
+    return this.#toolTimings;
+  }
+
+  /**
+   * Record lifecycle steps of a tool call. Steps already recorded keep their
+   * first time.
+   */
+  recordToolTiming = (
+    toolCallId: string,
+    timing: Partial<ToolCallTiming>,
+  ): void => {
+    const current = this.#toolTimings[toolCallId] ?? {};
+    const added = Object.entries(timing).filter(
+      ([step]) => current[step as keyof ToolCallTiming] === undefined,
+    );
+    if (added.length === 0) return;
+    this.#toolTimings = {
+      ...this.#toolTimings,
+      [toolCallId]: { ...current, ...Object.fromEntries(added) },
+    };
+    this.#toolTimingsCallbacks.forEach((callback) => callback());
+  };
+
+  /**
+   * The active path through the conversation tree.
+   */
+  get messages(): Message<METADATA>[] {
+    if (this.#messagesStale) this.#rebuildMessages();
     return this.#messages;
   }
 
-  set messages(newMessages: Message[]) {
-    this.#messages = [...newMessages];
+  /**
+   * Replace the whole conversation with a single branch.
+   */
+  set messages(newMessages: MessageInput<METADATA>[]) {
+    this.#resetTo(newMessages);
     this.#notifyMessagesCallbacks();
+    this.#pruneToolTimings();
   }
 
-  pushMessage = (message: Message): void => {
-    this.#messages = [...this.#messages, message];
+  /**
+   * Append a message to the active path, returning it with its assigned id.
+   * If the head was rewound, the message starts a new sibling branch.
+   */
+  pushMessage = (message: MessageInput<METADATA>): Message<METADATA> => {
+    const stored = this.#addNode(message, this.#headId);
+    this.#headId = stored.id;
+    this.#messagesStale = true;
     this.#notifyMessagesCallbacks();
+    if (stored.role === "tool") {
+      this.recordToolTiming(stored.tool_call_id, { completedAt: Date.now() });
+    }
+    return stored;
   };
 
+  /**
+   * Remove the last message of the active path, along with any inactive
+   * branches below it.
+   */
   popMessage = (): void => {
-    this.#messages = this.#messages.slice(0, -1);
+    if (this.#headId === null) return;
+    const head = this.#nodes.get(this.#headId)!;
+    this.#deleteSubtree(this.#headId);
+    this.#headId = head.parentId;
+    this.#messagesStale = true;
     this.#notifyMessagesCallbacks();
+    this.#pruneToolTimings();
   };
 
-  replaceLastMessage = (message: Message): void => {
-    if (this.#messages.length === 0) {
+  /**
+   * Replace the last message. The replacement keeps the previous message's
+   * id, and its metadata unless it provides its own.
+   *
+   * Called for every streamed delta, so the message is stored as given
+   * rather than cloned: pass a new object each time and don't mutate it
+   * afterwards. Notifications are batched according to `throttleMs`.
+   */
+  replaceLastMessage = (message: MessageInput<METADATA>): void => {
+    if (this.#headId === null) {
       this.pushMessage(message);
       return;
     }
-    this.#messages = [...this.#messages.slice(0, -1), structuredClone(message)];
+    this.replaceMessage(this.#headId, message);
+  };
+
+  /**
+   * Replace a message on any branch, like `replaceLastMessage`: the
+   * replacement keeps the id and metadata, and notifications are batched.
+   */
+  replaceMessage = (id: string, message: MessageInput<METADATA>): void => {
+    const node = this.#nodes.get(id);
+    if (!node) return;
+    const replacement = { ...message, id } as Message<METADATA>;
+    if (replacement.metadata === undefined && node.message.metadata !== undefined) {
+      replacement.metadata = node.message.metadata;
+    }
+    node.message = replacement;
+    this.#messagesStale = true;
+    this.#scheduleMessagesNotification();
+  };
+
+  /**
+   * Add a sibling version of message `id` without making it active,
+   * returning it with its assigned id.
+   */
+  addSiblingMessage = (
+    id: string,
+    message: MessageInput<METADATA>,
+  ): Message<METADATA> | undefined => {
+    const node = this.#nodes.get(id);
+    if (!node) return undefined;
+    const activeChildId = this.#activeChildIds.get(node.parentId);
+    const stored = this.#addNode(message, node.parentId);
+    // Adding a node activates it; keep the current version active
+    if (activeChildId !== undefined) {
+      this.#activeChildIds.set(node.parentId, activeChildId);
+    }
+    this.#notifyMessagesCallbacks();
+    return stored;
+  };
+
+  /**
+   * Messages waiting to be sent, oldest first.
+   */
+  get queuedMessages(): Message<METADATA>[] {
+    return this.#queuedMessages;
+  }
+
+  /**
+   * Add a message to send once the current response finishes.
+   */
+  enqueueMessage = (
+    message: MessageInput<METADATA>,
+    options?: ChatRequestOptions,
+    parentId?: string | null,
+  ): Message<METADATA> => {
+    const queued = this.#withId(message);
+    this.#setQueue([
+      ...this.#queue,
+      { message: queued, options, ...(parentId !== undefined && { parentId }) },
+    ]);
+    return queued;
+  };
+
+  /**
+   * Remove and return the oldest queued message.
+   */
+  dequeueMessage = (): QueuedMessage<METADATA> | undefined => {
+    const [next, ...rest] = this.#queue;
+    if (next) this.#setQueue(rest);
+    return next;
+  };
+
+  /**
+   * Remove a queued message before it's sent.
+   */
+  cancelQueuedMessage = (id: string): void => {
+    const queue = this.#queue.filter((queued) => queued.message.id !== id);
+    if (queue.length !== this.#queue.length) this.#setQueue(queue);
+  };
+
+  /**
+   * Remove all queued messages.
+   */
+  clearQueue = (): void => {
+    if (this.#queue.length > 0) this.#setQueue([]);
+  };
+
+  /**
+   * Deliver a pending throttled messages notification now.
+   */
+  flush = (): void => {
+    if (this.#cancelScheduledNotification) {
+      this.#notifyMessagesCallbacks();
+    }
+  };
+
+  /**
+   * Find a message by id, on any branch.
+   */
+  getMessage = (id: string): Message<METADATA> | undefined => {
+    return this.#nodes.get(id)?.message;
+  };
+
+  /**
+   * Get the id of a message's parent, or null for a first message.
+   * Returns undefined for unknown ids.
+   */
+  getParentId = (id: string): string | null | undefined => {
+    return this.#nodes.get(id)?.parentId;
+  };
+
+  /**
+   * Replace a single message in place, on any branch. The replacement
+   * always keeps the original id.
+   */
+  updateMessage = (
+    id: string,
+    updater: (message: Message<METADATA>) => MessageInput<METADATA>,
+  ): void => {
+    const node = this.#nodes.get(id);
+    if (!node) return;
+    node.message = { ...updater(node.message), id } as Message<METADATA>;
+    this.#messagesStale = true;
+    this.#notifyMessagesCallbacks();
+  };
+
+  /**
+   * Remove a single message by id. Its replies are attached to its parent,
+   * so removing a message from the middle of a conversation keeps the rest.
+   */
+  removeMessage = (id: string): void => {
+    const node = this.#nodes.get(id);
+    if (!node) return;
+
+    const siblings = this.#childIdsOf(node.parentId);
+    siblings.splice(siblings.indexOf(id), 1, ...node.childIds);
+    for (const childId of node.childIds) {
+      this.#nodes.get(childId)!.parentId = node.parentId;
+    }
+
+    if (this.#activeChildIds.get(node.parentId) === id) {
+      const activeChildId = this.#activeChildIds.get(id);
+      if (activeChildId !== undefined) {
+        this.#activeChildIds.set(node.parentId, activeChildId);
+      } else {
+        this.#activeChildIds.delete(node.parentId);
+      }
+    }
+    this.#activeChildIds.delete(id);
+    this.#nodes.delete(id);
+
+    if (this.#headId === id) {
+      this.#headId = node.parentId;
+    }
+    this.#messagesStale = true;
+    this.#notifyMessagesCallbacks();
+    this.#pruneToolTimings();
+  };
+
+  /**
+   * Move the head of the active path back to `id` (or before the first
+   * message when null). Later messages are kept as an inactive branch, and
+   * the next pushed message starts a new sibling version.
+   */
+  rewindTo = (id: string | null): void => {
+    if (id !== null && !this.#nodes.has(id)) return;
+    this.#headId = id;
+    this.#messagesStale = true;
+    this.#notifyMessagesCallbacks();
+  };
+
+  /**
+   * Get the sibling versions of a message.
+   */
+  getBranches = (id: string): MessageBranches => {
+    const node = this.#nodes.get(id);
+    if (!node) return { index: 0, count: 0, messageIds: [] };
+    const siblings = this.#childIdsOf(node.parentId);
+    return {
+      index: siblings.indexOf(id),
+      count: siblings.length,
+      messageIds: [...siblings],
+    };
+  };
+
+  /**
+   * Make the sibling at `index` the active version of message `id`.
+   * The active path continues down the branch that was last active below it.
+   */
+  switchBranch = (id: string, index: number): void => {
+    const node = this.#nodes.get(id);
+    if (!node) return;
+    const targetId = this.#childIdsOf(node.parentId)[index];
+    if (targetId === undefined) return;
+
+    this.#activeChildIds.set(node.parentId, targetId);
+    let headId = targetId;
+    let childIds = this.#nodes.get(headId)!.childIds;
+    while (childIds.length > 0) {
+      headId = this.#activeChildIds.get(headId) ?? childIds[childIds.length - 1];
+      childIds = this.#nodes.get(headId)!.childIds;
+    }
+    this.#headId = headId;
+    this.#messagesStale = true;
+    this.#notifyMessagesCallbacks();
+  };
+
+  /**
+   * Create a serializable snapshot of the conversation tree.
+   */
+  toSnapshot = (): ChatSnapshot<METADATA> => {
+    const nodes: ChatSnapshot<METADATA>["nodes"] = [];
+    // Depth-first so parents always come before their children
+    const pending = [...this.#rootIds].reverse();
+    while (pending.length > 0) {
+      const node = this.#nodes.get(pending.pop()!)!;
+      nodes.push({ message: node.message, parentId: node.parentId });
+      pending.push(...[...node.childIds].reverse());
+    }
+    return {
+      nodes,
+      headId: this.#headId,
+      activeChildIds: [...this.#activeChildIds],
+    };
+  };
+
+  /**
+   * Replace the conversation tree with a snapshot from `toSnapshot`.
+   */
+  restore = (snapshot: ChatSnapshot<METADATA>): void => {
+    this.#resetTo([]);
+    for (const { message, parentId } of snapshot.nodes) {
+      this.#nodes.set(message.id, { message, parentId, childIds: [] });
+      this.#childIdsOf(parentId).push(message.id);
+    }
+    this.#activeChildIds = new Map(snapshot.activeChildIds);
+    this.#headId = snapshot.headId;
+    this.#messagesStale = true;
     this.#notifyMessagesCallbacks();
+    this.#pruneToolTimings();
   };
 
   /**
@@ -94,11 +500,51 @@ export class DedalusChatState {
     };
   };
 
+  /**
+   * Subscribe to usage changes for useSyncExternalStore.
+   */
+  subscribeUsage = (callback: () => void): (() => void) => {
+    this.#usageCallbacks.add(callback);
+    return () => {
+      this.#usageCallbacks.delete(callback);
+    };
+  };
+
+  /**
+   * Subscribe to queued message changes for useSyncExternalStore.
+   */
+  subscribeQueue = (callback: () => void): (() => void) => {
+    this.#queueCallbacks.add(callback);
+    return () => {
+      this.#queueCallbacks.delete(callback);
+    };
+  };
+
+  /**
+   * Subscribe to tool call timing changes for useSyncExternalStore.
+   */
+  subscribeToolTimings = (callback: () => void): (() => void) => {
+    this.#toolTimingsCallbacks.add(callback);
+    return () => {
+      this.#toolTimingsCallbacks.delete(callback);
+    };
+  };
+
+  /**
+   * Subscribe to concurrency status changes for useSyncExternalStore.
+   */
+  subscribeConcurrencyStatus = (callback: () => void): (() => void) => {
+    this.#concurrencyStatusCallbacks.add(callback);
+    return () => {
+      this.#concurrencyStatusCallbacks.delete(callback);
+    };
+  };
+
   /**
    * Get snapshot of messages for useSyncExternalStore.
    */
-  getMessagesSnapshot = (): Message[] => {
-    return this.#messages;
+  getMessagesSnapshot = (): Message<METADATA>[] => {
+    return this.messages;
   };
 
   /**
@@ -115,7 +561,158 @@ export class DedalusChatState {
     return this.#error;
   };
 
+  /**
+   * Get snapshot of usage for useSyncExternalStore.
+   */
+  getUsageSnapshot = (): ChatUsage => {
+    return this.#usage;
+  };
+
+  /**
+   * Get snapshot of queued messages for useSyncExternalStore.
+   */
+  getQueueSnapshot = (): Message<METADATA>[] => {
+    return this.#queuedMessages;
+  };
+
+  /**
+   * Get snapshot of tool call timings for useSyncExternalStore.
+   */
+  getToolTimingsSnapshot = (): Record<string, ToolCallTiming> => {
+    return this.#toolTimings;
+  };
+
+  /**
+   * Get snapshot of the concurrency status for useSyncExternalStore.
+   */
+  getConcurrencyStatusSnapshot = (): ChatConcurrencyStatus => {
+    return this.#concurrencyStatus;
+  };
+
+  #withId(message: MessageInput<METADATA>): Message<METADATA> {
+    if (message.id) return message as Message<METADATA>;
+    return { ...message, id: this.#generateId() } as Message<METADATA>;
+  }
+
+  #setQueue(queue: QueuedMessage<METADATA>[]): void {
+    this.#queue = queue;
+    this.#queuedMessages = queue.map((queued) => queued.message);
+    this.#queueCallbacks.forEach((callback) => callback());
+    if (queue.length > 0) {
+      this.concurrencyStatus = "queued";
+    } else if (this.#concurrencyStatus === "queued") {
+      this.concurrencyStatus = "idle";
+    }
+  }
+
+  #childIdsOf(parentId: string | null): string[] {
+    return parentId === null ? this.#rootIds : this.#nodes.get(parentId)!.childIds;
+  }
+
+  #addNode(
+    message: MessageInput<METADATA>,
+    parentId: string | null,
+  ): Message<METADATA> {
+    const stored = this.#withId(message);
+    this.#nodes.set(stored.id, { message: stored, parentId, childIds: [] });
+    this.#childIdsOf(parentId).push(stored.id);
+    this.#activeChildIds.set(parentId, stored.id);
+    return stored;
+  }
+
+  #deleteSubtree(id: string): void {
+    const node = this.#nodes.get(id)!;
+    const siblings = this.#childIdsOf(node.parentId);
+    siblings.splice(siblings.indexOf(id), 1);
+    if (this.#activeChildIds.get(node.parentId) === id) {
+      if (siblings.length > 0) {
+        this.#activeChildIds.set(node.parentId, siblings[siblings.length - 1]);
+      } else {
+        this.#activeChildIds.delete(node.parentId);
+      }
+    }
+
+    const pending = [id];
+    while (pending.length > 0) {
+      const currentId = pending.pop()!;
+      pending.push(...this.#nodes.get(currentId)!.childIds);
+      this.#nodes.delete(currentId);
+      this.#activeChildIds.delete(currentId);
+    }
+  }
+
+  /**
+   * Drop the timings of tool calls that are no longer on any branch.
+   */
+  #pruneToolTimings(): void {
+    const timedIds = Object.keys(this.#toolTimings);
+    if (timedIds.length === 0) return;
+
+    const liveIds = new Set<string>();
+    for (const { message } of this.#nodes.values()) {
+      if (message.role !== "assistant") continue;
+      for (const toolCall of message.tool_calls ?? []) liveIds.add(toolCall.id);
+    }
+    const keptIds = timedIds.filter((id) => liveIds.has(id));
+    if (keptIds.length === timedIds.length) return;
+
+    this.#toolTimings = Object.fromEntries(
+      keptIds.map((id) => [id, this.#toolTimings[id]]),
+    );
+    this.#toolTimingsCallbacks.forEach((callback) => callback());
+  }
+
+  #resetTo(messages: MessageInput<METADATA>[]): void {
+    this.#nodes = new Map();
+    this.#rootIds = [];
+    this.#activeChildIds = new Map();
+    this.#headId = null;
+    for (const message of messages) {
+      this.#headId = this.#addNode(message, this.#headId).id;
+    }
+    this.#messagesStale = true;
+  }
+
+  /**
+   * Recompute the active path by walking up from the head.
+   */
+  #rebuildMessages(): void {
+    const path: Message<METADATA>[] = [];
+    let id = this.#headId;
+    while (id !== null) {
+      const node = this.#nodes.get(id)!;
+      path.push(node.message);
+      id = node.parentId;
+    }
+    this.#messages = path.reverse();
+    this.#messagesStale = false;
+  }
+
+  #scheduleMessagesNotification(): void {
+    if (this.throttleMs === undefined) {
+      this.#notifyMessagesCallbacks();
+      return;
+    }
+    if (this.#cancelScheduledNotification) return;
+
+    if (
+      this.throttleMs === "animationFrame" &&
+      typeof requestAnimationFrame === "function"
+    ) {
+      const frame = requestAnimationFrame(this.flush);
+      this.#cancelScheduledNotification = () => cancelAnimationFrame(frame);
+    } else {
+      // Without requestAnimationFrame (e.g. on the server), assume 60fps
+      const delay = this.throttleMs === "animationFrame" ? 16 : this.throttleMs;
+      const timer = setTimeout(this.flush, delay);
+      this.#cancelScheduledNotification = () => clearTimeout(timer);
+    }
+  }
+
   #notifyMessagesCallbacks = (): void => {
+    // Any notification delivers the pending throttled one too
+    this.#cancelScheduledNotification?.();
+    this.#cancelScheduledNotification = undefined;
     this.#messagesCallbacks.forEach((callback) => callback());
   };
 
@@ -126,4 +723,8 @@ export class DedalusChatState {
   #notifyErrorCallbacks = (): void => {
     this.#errorCallbacks.forEach((callback) => callback());
   };
+
+  #notifyUsageCallbacks = (): void => {
+    this.#usageCallbacks.forEach((callback) => callback());
+  };
 }
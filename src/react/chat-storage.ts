@@ -0,0 +1,202 @@
+import type { DedalusChatState } from "./chat-state";
+import type { ChatSnapshot, ChatStorage, MessageMetadata } from "./types";
+
+export interface LocalStorageChatStorageOptions {
+  /**
+   * Prefix for localStorage keys. Defaults to "dedalus-chat:".
+   */
+  prefix?: string;
+}
+
+/**
+ * Chat storage backed by `window.localStorage`.
+ *
+ * Simple and synchronous, so saved chats are restored without a loading
+ * state. localStorage is limited to a few megabytes per origin; use
+ * `IndexedDBChatStorage` for long conversations or many chats.
+ */
+export class LocalStorageChatStorage<METADATA = MessageMetadata>
+  implements ChatStorage<METADATA>
+{
+  #prefix: string;
+
+  constructor(options: LocalStorageChatStorageOptions = {}) {
+    this.#prefix = options.prefix ?? "dedalus-chat:";
+  }
+
+  load(id: string): ChatSnapshot<METADATA> | undefined {
+    const stored = localStorage.getItem(this.#prefix + id);
+    return stored ? (JSON.parse(stored) as ChatSnapshot<METADATA>) : undefined;
+  }
+
+  save(id: string, snapshot: ChatSnapshot<METADATA>): void {
+    localStorage.setItem(this.#prefix + id, JSON.stringify(snapshot));
+  }
+
+  remove(id: string): void {
+    localStorage.removeItem(this.#prefix + id);
+  }
+}
+
+export interface IndexedDBChatStorageOptions {
+  /**
+   * Name of the IndexedDB database. Defaults to "dedalus-react".
+   */
+  databaseName?: string;
+
+  /**
+   * Name of the object store holding chats. Defaults to "chats".
+   */
+  storeName?: string;
+}
+
+/**
+ * Chat storage backed by IndexedDB.
+ *
+ * Asynchronous, so the chat status is `"loading"` until a saved chat has
+ * been restored.
+ */
+export class IndexedDBChatStorage<METADATA = MessageMetadata>
+  implements ChatStorage<METADATA>
+{
+  #databaseName: string;
+  #storeName: string;
+  #database: Promise<IDBDatabase> | undefined;
+
+  constructor(options: IndexedDBChatStorageOptions = {}) {
+    this.#databaseName = options.databaseName ?? "dedalus-react";
+    this.#storeName = options.storeName ?? "chats";
+  }
+
+  async load(id: string): Promise<ChatSnapshot<METADATA> | undefined> {
+    return this.#request("readonly", (store) =>
+      store.get(id) as IDBRequest<ChatSnapshot<METADATA> | undefined>,
+    );
+  }
+
+  async save(id: string, snapshot: ChatSnapshot<METADATA>): Promise<void> {
+    await this.#request("readwrite", (store) => store.put(snapshot, id));
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.#request("readwrite", (store) => store.delete(id));
+  }
+
+  /**
+   * Open the database once, creating the object store on first use.
+   */
+  #open(): Promise<IDBDatabase> {
+    this.#database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.#databaseName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(this.#storeName);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return this.#database;
+  }
+
+  async #request<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> {
+    const database = await this.#open();
+    return new Promise((resolve, reject) => {
+      const store = database
+        .transaction(this.#storeName, mode)
+        .objectStore(this.#storeName);
+      const request = run(store);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+export interface AttachChatStorageOptions<METADATA> {
+  storage: ChatStorage<METADATA>;
+  persistPartialMessages: boolean;
+}
+
+export interface AttachedChatStorage {
+  /** Settles once loading has finished, whether or not it succeeded */
+  loaded: Promise<void>;
+  /** Stops saving */
+  detach: () => void;
+}
+
+/**
+ * Load the saved chat into `state`, then save whenever its messages change
+ * outside of a streaming response. Options are read through `getOptions`
+ * so the latest adapter is always used.
+ *
+ * Nothing is saved until loading has succeeded, so the stored chat is never
+ * replaced by one that is missing its history. The loaded chat is restored
+ * even if the status changed while loading, e.g. with stop().
+ */
+export function attachChatStorage<METADATA>(
+  state: DedalusChatState<METADATA>,
+  chatId: string,
+  getOptions: () => AttachChatStorageOptions<METADATA>,
+  onError: (error: Error) => void,
+): AttachedChatStorage {
+  let detached = false;
+  let isLoaded = false;
+
+  const fail = (err: unknown) => {
+    const error = err instanceof Error ? err : new Error(String(err));
+    state.error = error;
+    state.status = "error";
+    onError(error);
+  };
+
+  const save = () => {
+    if (detached || !isLoaded) return;
+    const { storage, persistPartialMessages } = getOptions();
+    const isStreaming =
+      state.status === "submitted" || state.status === "streaming";
+    if (isStreaming && !persistPartialMessages) return;
+
+    Promise.resolve(storage.save(chatId, state.toSnapshot())).catch((err) => {
+      onError(err instanceof Error ? err : new Error(String(err)));
+    });
+  };
+
+  const restore = (snapshot: ChatSnapshot<METADATA> | undefined | null) => {
+    if (snapshot) state.restore(snapshot);
+    isLoaded = true;
+  };
+
+  let loaded = Promise.resolve();
+  try {
+    const snapshot = getOptions().storage.load(chatId);
+    if (snapshot instanceof Promise) {
+      state.status = "loading";
+      loaded = snapshot.then(
+        (result) => {
+          if (detached) return;
+          restore(result);
+          if (state.status === "loading") state.status = "ready";
+        },
+        (err) => {
+          if (!detached) fail(err);
+        },
+      );
+    } else {
+      restore(snapshot);
+    }
+  } catch (err) {
+    fail(err);
+  }
+
+  const unsubscribeMessages = state.subscribeMessages(save);
+  const unsubscribeStatus = state.subscribeStatus(save);
+  return {
+    loaded,
+    detach: () => {
+      detached = true;
+      unsubscribeMessages();
+      unsubscribeStatus();
+    },
+  };
+}
@@ -0,0 +1,105 @@
+import { DedalusChatState } from "./chat-state";
+import type {
+  IdGenerator,
+  MessageInput,
+  MessageMetadata,
+  ToolCall,
+} from "./types";
+
+/**
+ * Everything a `ChatController` keeps for one chat: its state and the
+ * bookkeeping for its in-flight request. Shared by every hook using the same
+ * chat id inside a `ChatProvider`, so `stop()` works from any of them.
+ */
+export interface ChatStoreEntry<METADATA = MessageMetadata> {
+  readonly id: string;
+  readonly state: DedalusChatState<METADATA>;
+  /** Controller for the in-flight request, if any */
+  abortController: AbortController | null;
+  /** Tool calls already passed to onToolCall for the current request */
+  notifiedToolCallIds: Set<string>;
+  /** Step of the latest request in the current automatic send loop */
+  step: number;
+  /**
+   * Tool calls of candidates (choices other than 0) from responses that
+   * completed in this session, keyed by message id. Run once a candidate
+   * is picked with `switchBranch`.
+   */
+  candidateToolCalls: Map<string, ToolCall[]>;
+  /** Number of mounted hooks with storage enabled for this chat */
+  storageUsers: number;
+  /** Stops loading and saving; set while `storageUsers` is non-zero */
+  detachStorage?: () => void;
+  /** Settles once the saved chat has been loaded, or failed to load */
+  loaded?: Promise<void>;
+}
+
+/**
+ * Create the entry for a chat that is not registered in a store yet.
+ */
+export function createChatStoreEntry<METADATA>(
+  id: string,
+  initialMessages: MessageInput<METADATA>[] | undefined,
+  generateId: IdGenerator,
+): ChatStoreEntry<METADATA> {
+  return {
+    id,
+    state: new DedalusChatState(initialMessages, generateId),
+    abortController: null,
+    notifiedToolCallIds: new Set(),
+    step: 0,
+    candidateToolCalls: new Map(),
+    storageUsers: 0,
+  };
+}
+
+/**
+ * Registry of chats keyed by chat id.
+ *
+ * A `ChatProvider` creates one automatically. Create your own and pass it to
+ * the provider to inspect or clear chats from outside React.
+ */
+export class ChatStore {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  #chats = new Map<string, ChatStoreEntry<any>>();
+
+  /**
+   * Get the chat for `id`, creating it with `create` on first use.
+   */
+  getOrCreate<METADATA>(
+    id: string,
+    create: () => ChatStoreEntry<METADATA>,
+  ): ChatStoreEntry<METADATA> {
+    let chat = this.#chats.get(id);
+    if (!chat) {
+      chat = create();
+      this.#chats.set(id, chat);
+    }
+    return chat;
+  }
+
+  /**
+   * Get the chat for `id`, if it exists.
+   */
+  get<METADATA = MessageMetadata>(
+    id: string,
+  ): ChatStoreEntry<METADATA> | undefined {
+    return this.#chats.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.#chats.has(id);
+  }
+
+  /**
+   * Abort the chat's in-flight request and remove it from the store.
+   * Hooks still mounted with this id keep their current state.
+   */
+  delete(id: string): void {
+    const chat = this.#chats.get(id);
+    if (!chat) return;
+    chat.abortController?.abort();
+    chat.abortController = null;
+    this.#chats.delete(id);
+  }
+}
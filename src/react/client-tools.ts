@@ -0,0 +1,98 @@
+import { validate } from "./validate";
+import type {
+  ChatCompletionToolMessageParam,
+  ClientTools,
+  ToolCall,
+  ToolErrorResult,
+  ToolErrorType,
+} from "./types";
+
+/**
+ * Build the structured result for a failed tool call.
+ */
+export function createToolErrorResult(
+  type: ToolErrorType,
+  message: string,
+): ToolErrorResult {
+  return { error: { type, message } };
+}
+
+/**
+ * Build the tool message for a tool call result.
+ * Strings are sent as-is; other results are JSON-encoded.
+ */
+export function createToolMessage(
+  toolCallId: string,
+  result: unknown,
+): ChatCompletionToolMessageParam {
+  return {
+    role: "tool",
+    tool_call_id: toolCallId,
+    content: typeof result === "string" ? result : JSON.stringify(result ?? null),
+  };
+}
+
+/**
+ * Parse, validate and execute a tool call with a registered client tool.
+ * Never throws: every failure becomes a `ToolErrorResult` tool message.
+ */
+export async function executeClientTool(
+  tools: ClientTools,
+  toolCall: ToolCall,
+): Promise<ChatCompletionToolMessageParam> {
+  const { name } = toolCall.function;
+  const tool = Object.prototype.hasOwnProperty.call(tools, name)
+    ? tools[name]
+    : undefined;
+
+  if (!tool) {
+    return createToolMessage(
+      toolCall.id,
+      createToolErrorResult("unknown_tool", `Unknown tool "${name}"`),
+    );
+  }
+
+  let args: unknown;
+  try {
+    args = toolCall.function.arguments
+      ? JSON.parse(toolCall.function.arguments)
+      : {};
+  } catch (err) {
+    return createToolMessage(
+      toolCall.id,
+      createToolErrorResult(
+        "invalid_arguments",
+        `Arguments for "${name}" are not valid JSON: ${
+          err instanceof Error ? err.message : String(err)
+        }`,
+      ),
+    );
+  }
+
+  if (tool.parameters) {
+    const validation = await validate(tool.parameters, args);
+    if (!validation.success) {
+      return createToolMessage(
+        toolCall.id,
+        createToolErrorResult(
+          "invalid_arguments",
+          `Invalid arguments for "${name}": ${validation.error.message}`,
+        ),
+      );
+    }
+    args = validation.value;
+  }
+
+  try {
+    const result = await tool.execute(args, { toolCall });
+    return createToolMessage(toolCall.id, result);
+  } catch (err) {
+    return createToolMessage(
+      toolCall.id,
+      createToolErrorResult(
+        "execution_error",
+        err instanceof Error ? err.message : String(err),
+      ),
+    );
+  }
+}
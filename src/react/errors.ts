@@ -0,0 +1,83 @@
+import type { StreamErrorPayload } from "../server/stream-error";
+
+// Declared once, next to the server helpers that send it
+export type { StreamErrorPayload };
+
+/**
+ * Error reported by the server in an `event: error` frame after the stream
+ * had started (see `streamToWebResponse` / `streamToNodeResponse`).
+ *
+ * @example
+ * ```tsx
+ * useChat({
+ *   onError: (error) => {
+ *     if (error instanceof DedalusStreamError && error.retryable) {
+ *       showRetryButton()
+ *     }
+ *   },
+ * })
+ * ```
+ */
+export class DedalusStreamError extends Error {
+  /** Machine-readable error code, e.g. `rate_limited` or `internal_error` */
+  readonly code: string;
+  /** Whether retrying the same request may succeed */
+  readonly retryable: boolean;
+
+  /**
+   * @param payload - Data of the `event: error` frame. Fields may be missing
+   *   when the frame comes from another server.
+   */
+  constructor(payload: Partial<StreamErrorPayload>) {
+    super(payload.message ?? "The stream failed");
+    this.name = "DedalusStreamError";
+    this.code = payload.code ?? "internal_error";
+    this.retryable = payload.retryable ?? false;
+  }
+}
+
+/**
+ * Error for a non-2xx response to the chat request.
+ */
+export class DedalusHTTPError extends Error {
+  /** HTTP status code of the response */
+  readonly status: number;
+  /** Response headers, e.g. to read `Retry-After` */
+  readonly headers: Headers;
+
+  constructor(status: number, body: string, headers: Headers) {
+    super(`HTTP ${status}: ${body}`);
+    this.name = "DedalusHTTPError";
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+/**
+ * Error for a file passed to `sendMessage` that was rejected or failed to
+ * upload.
+ */
+export class AttachmentError extends Error {
+  /** Why the file was rejected */
+  readonly code: "file_too_large" | "unsupported_type" | "upload_failed";
+  /** The rejected file */
+  readonly file: File;
+
+  constructor(message: string, code: AttachmentError["code"], file: File) {
+    super(message);
+    this.name = "AttachmentError";
+    this.code = code;
+    this.file = file;
+  }
+}
+
+/**
+ * Error passed to `onError` when `sendMessage` is called while a response
+ * is in progress and `concurrency` is `"reject"`.
+ */
+export class ChatBusyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChatBusyError";
+  }
+}
@@ -1,31 +1,20 @@
+export * from "../core";
 export { useChat, useDedalusChat } from "./use-chat";
+export { useCompletion } from "./use-completion";
+export { useObject } from "./use-object";
 export { useStableCallback } from "./use-stable-callback";
+export { ChatProvider, useChatStore } from "./chat-provider";
+export type { ChatProviderProps } from "./chat-provider";
 export type {
-  // Core hook types
-  Message,
-  DedalusChatStatus,
-  ChatRequestOptions,
+  // Chat hook types
   UseDedalusChatOptions,
   UseDedalusChatReturn,
-  IdGenerator,
-  // Transport types
-  Resolvable,
-  TransportConfig,
-  PrepareRequestBodyOptions,
-  // Tool calling and auto-send types
-  ToolCall,
-  OnFinishOptions,
-  OnToolCallOptions,
-  SendAutomaticallyWhenOptions,
-  AddToolResultOptions,
-  // Re-exported from dedalus-labs SDK (type-only, no runtime impact)
-  StreamChunk,
-  ChatCompletionUserMessageParam,
-  ChatCompletionAssistantMessageParam,
-  ChatCompletionSystemMessageParam,
-  ChatCompletionToolMessageParam,
-  ChatCompletionDeveloperMessageParam,
-  ChatCompletionFunctionMessageParam,
-  ChoiceDelta,
-  ChoiceDeltaToolCall,
+  // Completion hook types
+  UseCompletionOptions,
+  UseCompletionReturn,
+  OnCompletionFinishOptions,
+  // Structured output hook types
+  UseObjectOptions,
+  UseObjectReturn,
+  OnObjectFinishOptions,
 } from "./types";
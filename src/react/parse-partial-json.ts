@@ -0,0 +1,192 @@
+/**
+ * Marks a value that was cut off before anything usable was read.
+ */
+const INCOMPLETE = Symbol("incomplete");
+
+/**
+ * Characters produced by single-character escape sequences.
+ */
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+/**
+ * Thrown for text that can never become valid JSON.
+ */
+class InvalidJsonError extends Error {}
+
+/**
+ * Parse the beginning of a JSON document that is still streaming.
+ *
+ * Returns the value the text has described so far: open objects and arrays
+ * are closed, a cut-off string keeps the characters received, a cut-off
+ * number keeps its digits, and keys or literals that were cut off are left
+ * out. Returns undefined when no value has started yet or the text is not
+ * JSON.
+ *
+ * @example
+ * ```ts
+ * parsePartialJson('{"title": "Hello wo')
+ * // => { title: 'Hello wo' }
+ *
+ * parsePartialJson('{"tags": ["a", "b"], "done": tr')
+ * // => { tags: ['a', 'b'] }
+ * ```
+ */
+export function parsePartialJson(text: string): unknown {
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const parseString = (): string => {
+    // Skip the opening quote
+    pos++;
+    let value = "";
+    while (pos < text.length) {
+      const char = text[pos];
+      if (char === '"') {
+        pos++;
+        return value;
+      }
+      if (char !== "\\") {
+        value += char;
+        pos++;
+        continue;
+      }
+
+      const escape = text[pos + 1];
+      if (escape === undefined) break;
+      if (escape === "u") {
+        const hex = text.slice(pos + 2, pos + 6);
+        // A cut-off \u escape is dropped
+        if (hex.length < 4) break;
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) throw new InvalidJsonError();
+        value += String.fromCharCode(Number.parseInt(hex, 16));
+        pos += 6;
+        continue;
+      }
+      const escaped = ESCAPES[escape];
+      if (escaped === undefined) throw new InvalidJsonError();
+      value += escaped;
+      pos += 2;
+    }
+    pos = text.length;
+    return value;
+  };
+
+  const parseNumber = (): number | typeof INCOMPLETE => {
+    const match = /^-?(?:0|[1-9]\d*)?(?:\.\d*)?(?:[eE][+-]?\d*)?/.exec(
+      text.slice(pos)
+    )!;
+    pos += match[0].length;
+    // Keep the digits of a number cut off after "-", "." or "e"
+    const digits = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/.exec(match[0]);
+    if (pos < text.length && (!digits || digits[0] !== match[0])) {
+      throw new InvalidJsonError();
+    }
+    return digits ? Number(digits[0]) : INCOMPLETE;
+  };
+
+  const parseLiteral = (): boolean | null | typeof INCOMPLETE => {
+    for (const [word, value] of [
+      ["true", true],
+      ["false", false],
+      ["null", null],
+    ] as const) {
+      const rest = text.slice(pos, pos + word.length);
+      if (!word.startsWith(rest)) continue;
+      pos += rest.length;
+      return rest === word ? value : INCOMPLETE;
+    }
+    throw new InvalidJsonError();
+  };
+
+  const parseObject = (): Record<string, unknown> => {
+    // Skip the opening brace
+    pos++;
+    const object: Record<string, unknown> = {};
+    while (true) {
+      skipWhitespace();
+      if (pos >= text.length) return object;
+      if (text[pos] === "}") {
+        pos++;
+        return object;
+      }
+      if (text[pos] !== '"') throw new InvalidJsonError();
+      const key = parseString();
+
+      skipWhitespace();
+      // A key without its value yet is left out
+      if (pos >= text.length) return object;
+      if (text[pos] !== ":") throw new InvalidJsonError();
+      pos++;
+
+      const value = parseValue();
+      if (value !== INCOMPLETE) object[key] = value;
+
+      skipWhitespace();
+      if (pos >= text.length) return object;
+      if (text[pos] === ",") {
+        pos++;
+      } else if (text[pos] !== "}") {
+        throw new InvalidJsonError();
+      }
+    }
+  };
+
+  const parseArray = (): unknown[] => {
+    // Skip the opening bracket
+    pos++;
+    const array: unknown[] = [];
+    while (true) {
+      skipWhitespace();
+      if (pos >= text.length) return array;
+      if (text[pos] === "]") {
+        pos++;
+        return array;
+      }
+
+      const value = parseValue();
+      if (value !== INCOMPLETE) array.push(value);
+
+      skipWhitespace();
+      if (pos >= text.length) return array;
+      if (text[pos] === ",") {
+        pos++;
+      } else if (text[pos] !== "]") {
+        throw new InvalidJsonError();
+      }
+    }
+  };
+
+  const parseValue = (): unknown => {
+    skipWhitespace();
+    if (pos >= text.length) return INCOMPLETE;
+
+    const char = text[pos];
+    if (char === "{") return parseObject();
+    if (char === "[") return parseArray();
+    if (char === '"') return parseString();
+    if (char === "-" || (char >= "0" && char <= "9")) return parseNumber();
+    return parseLiteral();
+  };
+
+  try {
+    const value = parseValue();
+    skipWhitespace();
+    if (pos < text.length) return undefined;
+    return value === INCOMPLETE ? undefined : value;
+  } catch (err) {
+    if (err instanceof InvalidJsonError) return undefined;
+    throw err;
+  }
+}
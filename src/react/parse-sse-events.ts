@@ -0,0 +1,129 @@
+/**
+ * A server-sent event, as dispatched by the WHATWG EventSource algorithm.
+ */
+export interface SSEEvent {
+  /** Event type from the `event:` field; "message" when not set */
+  event: string;
+  /** The `data:` fields of the event, joined with newlines */
+  data: string;
+  /** Last event id set by an `id:` field, if any (persists across events) */
+  id: string | undefined;
+  /** Reconnection time in milliseconds from the last `retry:` field, if any */
+  retry: number | undefined;
+}
+
+/**
+ * Parse a byte stream of `text/event-stream` data into events.
+ *
+ * Follows the WHATWG HTML "event stream interpretation" rules: LF, CR and
+ * CRLF line endings, comment lines, fields with or without a space after the
+ * colon, multi-line `data:`, and the `event:`, `id:` and `retry:` fields.
+ * An event without a terminating blank line at the end of the stream is
+ * discarded, as the spec requires.
+ *
+ * @example
+ * ```ts
+ * const response = await fetch('/api/events')
+ * for await (const event of parseSSEEvents(response.body!)) {
+ *   if (event.event === 'message') console.log(JSON.parse(event.data))
+ * }
+ * ```
+ */
+export async function* parseSSEEvents(
+  stream: ReadableStream<Uint8Array>,
+): AsyncIterable<SSEEvent> {
+  // Use type assertion to work around TypeScript DOM lib inconsistencies.
+  // TextDecoder also strips a leading byte order mark.
+  const textStream = stream.pipeThrough(
+    new TextDecoderStream() as unknown as TransformStream<Uint8Array, string>,
+  );
+  const reader = textStream.getReader();
+
+  const lineBreak = /\r\n|\r|\n/g;
+  let buffer = "";
+  // A CR ending the previous chunk may be the first half of a CRLF
+  let skipLeadingLF = false;
+
+  let data = "";
+  let eventType = "";
+  let lastEventId = "";
+  let retry: number | undefined;
+
+  /**
+   * Process one line, returning an event when a blank line dispatches one.
+   */
+  const processLine = (line: string): SSEEvent | undefined => {
+    if (line === "") {
+      if (data === "") {
+        eventType = "";
+        return undefined;
+      }
+      const event: SSEEvent = {
+        event: eventType || "message",
+        // Remove the newline appended after the last data line
+        data: data.slice(0, -1),
+        id: lastEventId || undefined,
+        retry,
+      };
+      data = "";
+      eventType = "";
+      return event;
+    }
+
+    // Comment line
+    if (line.startsWith(":")) return undefined;
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    switch (field) {
+      case "event":
+        eventType = value;
+        break;
+      case "data":
+        data += value + "\n";
+        break;
+      case "id":
+        if (!value.includes("\0")) lastEventId = value;
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) retry = Number.parseInt(value, 10);
+        break;
+      // Other fields are ignored
+    }
+    return undefined;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      let text = value;
+      if (skipLeadingLF && text.startsWith("\n")) {
+        text = text.slice(1);
+      }
+      skipLeadingLF = false;
+      buffer += text;
+
+      let lineStart = 0;
+      lineBreak.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = lineBreak.exec(buffer)) !== null) {
+        const line = buffer.slice(lineStart, match.index);
+        lineStart = match.index + match[0].length;
+        if (match[0] === "\r" && lineStart === buffer.length) {
+          skipLeadingLF = true;
+        }
+        const event = processLine(line);
+        if (event) yield event;
+      }
+      buffer = buffer.slice(lineStart);
+    }
+    // Any incomplete event left in the buffer is discarded
+  } finally {
+    reader.releaseLock();
+  }
+}
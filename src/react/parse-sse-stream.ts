@@ -1,54 +1,45 @@
+import { parseSSEEvents } from "./parse-sse-events";
 import type { StreamChunk } from "./types";
 
 /**
- * Parse an SSE stream into StreamChunk objects.
- * Handles the OpenAI-style SSE format with `data: {...}` lines.
+ * A parsed SSE event. Default `message` events carry a StreamChunk; named
+ * events (with an `event:` field, e.g. `tool-result`) carry their own JSON
+ * payload.
+ */
+export type ParsedSSEEvent = (
+  | { event: undefined; data: StreamChunk }
+  | { event: string; data: unknown }
+) & {
+  /** Last event id sent by the server, used to resume with `Last-Event-ID` */
+  id: string | undefined;
+  /** Reconnection delay requested with a `retry:` field, in milliseconds */
+  retry: number | undefined;
+};
+
+/**
+ * Parse an SSE stream into StreamChunk objects and named events.
+ * Handles the OpenAI-style SSE format with `data: {...}` events, stopping at
+ * `data: [DONE]`.
  */
 export async function* parseSSEStream(
   stream: ReadableStream<Uint8Array>,
-): AsyncIterable<StreamChunk> {
-  // Use type assertion to work around TypeScript DOM lib inconsistencies
-  const textStream = stream.pipeThrough(
-    new TextDecoderStream() as unknown as TransformStream<Uint8Array, string>,
-  );
-  const reader = textStream.getReader();
-  let buffer = "";
+): AsyncIterable<ParsedSSEEvent> {
+  for await (const { event, data, id, retry } of parseSSEEvents(stream)) {
+    if (event === "message" && data === "[DONE]") return;
 
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      buffer += value;
-      const lines = buffer.split("\n");
-      buffer = lines.pop() || "";
-
-      for (const line of lines) {
-        const trimmed = line.trim();
-        if (trimmed.startsWith("data: ")) {
-          const data = trimmed.slice(6);
-          if (data === "[DONE]") return;
-          try {
-            yield JSON.parse(data) as StreamChunk;
-          } catch {
-            // Skip malformed JSON chunks
-          }
-        }
-      }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      // Skip malformed JSON chunks
+      continue;
     }
 
-    // Process any remaining buffer
-    if (buffer.trim().startsWith("data: ")) {
-      const data = buffer.trim().slice(6);
-      if (data !== "[DONE]") {
-        try {
-          yield JSON.parse(data) as StreamChunk;
-        } catch {
-          // Skip malformed JSON chunks
-        }
-      }
-    }
-  } finally {
-    reader.releaseLock();
+    yield {
+      event: event === "message" ? undefined : event,
+      data: parsed,
+      id,
+      retry,
+    } as ParsedSSEEvent;
   }
 }
@@ -0,0 +1,86 @@
+import { DedalusStreamError, type StreamErrorPayload } from "./errors";
+import { parseSSEStream } from "./parse-sse-stream";
+import {
+  getResponseBody,
+  isJsonResponse,
+  readJsonCompletion,
+} from "./transport";
+import type {
+  CompletionUsage,
+  FinishReason,
+  StreamChunk,
+} from "./types";
+
+/**
+ * Text of the first choice of a response and the details sent with it.
+ */
+export interface TextResult {
+  text: string;
+  finishReason: FinishReason | undefined;
+  usage: CompletionUsage | undefined;
+  model: string | undefined;
+  completionId: string | undefined;
+}
+
+/**
+ * Create an empty result to read a response into.
+ */
+export function createTextResult(): TextResult {
+  return {
+    text: "",
+    finishReason: undefined,
+    usage: undefined,
+    model: undefined,
+    completionId: undefined,
+  };
+}
+
+/**
+ * Read the first choice of a streaming or JSON response into `result`,
+ * calling `onText` with the text so far whenever it grows. Stops early when
+ * `signal` aborts, and throws `DedalusStreamError` for `event: error` frames.
+ * Other named events (e.g. tool results) are ignored.
+ */
+export async function readTextResponse(
+  response: Response,
+  signal: AbortSignal,
+  result: TextResult,
+  onText: (text: string) => void
+): Promise<void> {
+  if (isJsonResponse(response)) {
+    const completion = await readJsonCompletion(response);
+    const choice = completion.choices.find((c) => c.index === 0);
+    result.completionId = completion.id;
+    result.model = completion.model;
+    result.usage = completion.usage;
+    result.finishReason = choice?.finish_reason ?? undefined;
+    result.text = choice?.message.content ?? "";
+    onText(result.text);
+    return;
+  }
+
+  const applyChunk = (chunk: StreamChunk) => {
+    result.completionId ??= chunk.id;
+    result.model ??= chunk.model;
+    if (chunk.usage) result.usage = chunk.usage;
+
+    const choice = chunk.choices?.find((c) => c.index === 0);
+    if (!choice) return;
+    if (choice.finish_reason) result.finishReason = choice.finish_reason;
+    if (choice.delta?.content) {
+      result.text += choice.delta.content;
+      onText(result.text);
+    }
+  };
+
+  for await (const event of parseSSEStream(getResponseBody(response))) {
+    if (signal.aborted) return;
+    if (event.event === undefined) {
+      applyChunk(event.data);
+    } else if (event.event === "error") {
+      throw new DedalusStreamError(
+        event.data as Partial<StreamErrorPayload>,
+      );
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { DedalusHTTPError } from "./errors";
+import type { RetryOptions } from "./types";
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_INITIAL_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 30_000;
+const DEFAULT_BACKOFF_FACTOR = 2;
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Parse a `Retry-After` header (delay in seconds or an HTTP date) into
+ * milliseconds. Returns undefined if the header is missing or invalid.
+ */
+function parseRetryAfter(headers: Headers): number | undefined {
+  const value = headers.get("Retry-After")?.trim();
+  if (!value) return undefined;
+  if (/^\d+$/.test(value)) return Number(value) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Get the delay before retrying a request that failed on `attempt`
+ * (1-based), or undefined if it shouldn't be retried.
+ *
+ * Network errors (`TypeError` from fetch) and responses with a retryable
+ * status are retried with exponential backoff. A `Retry-After` header
+ * replaces the backoff delay; if it asks for longer than `maxDelayMs`, the
+ * request is not retried.
+ */
+export function getRetryDelay(
+  options: RetryOptions,
+  error: unknown,
+  attempt: number
+): number | undefined {
+  if (attempt >= (options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS)) return undefined;
+
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+
+  if (error instanceof DedalusHTTPError) {
+    const isRetryable = options.isRetryableStatus
+      ? options.isRetryableStatus(error.status)
+      : RETRYABLE_STATUSES.has(error.status);
+    if (!isRetryable) return undefined;
+
+    const retryAfterMs = parseRetryAfter(error.headers);
+    if (retryAfterMs !== undefined) {
+      return retryAfterMs <= maxDelayMs ? retryAfterMs : undefined;
+    }
+  } else if (!(error instanceof TypeError)) {
+    return undefined;
+  }
+
+  const delay = Math.min(
+    (options.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS) *
+      (options.backoffFactor ?? DEFAULT_BACKOFF_FACTOR) ** (attempt - 1),
+    maxDelayMs
+  );
+  // Spread retries from many clients over the upper half of the delay
+  return options.jitter === false ? delay : delay / 2 + Math.random() * (delay / 2);
+}
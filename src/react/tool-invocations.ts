@@ -0,0 +1,115 @@
+import { parsePartialJson } from "./parse-partial-json";
+import type {
+  Message,
+  ToolCallTiming,
+  ToolErrorResult,
+  ToolInvocation,
+} from "./types";
+
+/**
+ * Check whether a tool result is a structured tool error.
+ */
+function isToolErrorResult(result: unknown): result is ToolErrorResult {
+  if (typeof result !== "object" || result === null) return false;
+  const { error } = result as { error?: unknown };
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    typeof (error as { type?: unknown }).type === "string" &&
+    typeof (error as { message?: unknown }).message === "string"
+  );
+}
+
+/**
+ * Parse tool message content, falling back to the raw string.
+ */
+function parseToolResult(content: unknown): unknown {
+  if (typeof content !== "string") return content;
+  try {
+    return JSON.parse(content);
+  } catch {
+    return content;
+  }
+}
+
+/**
+ * Parses tool call arguments, given the tool call id and the argument text.
+ */
+export type ToolArgsParser = (toolCallId: string, text: string) => unknown;
+
+/**
+ * Create a parser that remembers the last parse of each tool call, so
+ * arguments are only parsed again when their text changed.
+ */
+export function createToolArgsParser(): ToolArgsParser {
+  const parsed = new Map<string, { text: string; args: unknown }>();
+  return (toolCallId, text) => {
+    const cached = parsed.get(toolCallId);
+    if (cached?.text === text) return cached.args;
+    const args = parsePartialJson(text);
+    parsed.set(toolCallId, { text, args });
+    return args;
+  };
+}
+
+/**
+ * Derive the state of every tool call on a path of messages.
+ *
+ * @param isStreaming - Whether a response is in progress; tool calls whose
+ *   response hasn't ended are then `streaming-args`
+ * @param parseArgs - Parses each tool call's arguments; pass one from
+ *   `createToolArgsParser` when deriving repeatedly
+ */
+export function getToolInvocations(
+  messages: Message<unknown>[],
+  timings: Record<string, ToolCallTiming>,
+  isStreaming: boolean,
+  parseArgs: ToolArgsParser = (_toolCallId, text) => parsePartialJson(text),
+): ToolInvocation[] {
+  const invocations: ToolInvocation[] = [];
+  const byId = new Map<string, ToolInvocation>();
+
+  for (const message of messages) {
+    if (message.role === "assistant") {
+      for (const toolCall of message.tool_calls ?? []) {
+        if (toolCall.type !== "function") continue;
+        const timing = timings[toolCall.id] ?? {};
+        const approval = message.toolApprovals?.[toolCall.id];
+
+        let state: ToolInvocation["state"] = "pending";
+        if (isStreaming && timing.startedAt && !timing.argsCompletedAt) {
+          state = "streaming-args";
+        } else if (timing.runningAt && approval !== "pending") {
+          state = "running";
+        }
+
+        const invocation: ToolInvocation = {
+          toolCallId: toolCall.id,
+          toolName: toolCall.function.name,
+          messageId: message.id,
+          state,
+          args: parseArgs(toolCall.id, toolCall.function.arguments),
+          result: undefined,
+          error: undefined,
+          approval,
+          timing,
+        };
+        invocations.push(invocation);
+        byId.set(toolCall.id, invocation);
+      }
+    } else if (message.role === "tool") {
+      const invocation = byId.get(message.tool_call_id);
+      if (!invocation) continue;
+      const result = parseToolResult(message.content);
+      invocation.result = result;
+      if (isToolErrorResult(result)) {
+        invocation.state = "error";
+        invocation.error = result.error;
+      } else {
+        invocation.state = "result";
+      }
+    }
+  }
+
+  return invocations;
+}
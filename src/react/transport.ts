@@ -0,0 +1,231 @@
+import { DedalusHTTPError } from "./errors";
+import { getRetryDelay } from "./retry";
+import type {
+  ChatCompletion,
+  ChatRequestOptions,
+  MessageParam,
+  ReconnectOptions,
+  Resolvable,
+  RetryOptions,
+  TransportConfig,
+} from "./types";
+
+/**
+ * Transport values resolved for a single request.
+ */
+export interface ResolvedTransport {
+  api: string;
+  headers: Record<string, string> | Headers | undefined;
+  credentials: RequestCredentials | undefined;
+  body: object | undefined;
+  fetch: typeof globalThis.fetch;
+  reconnect: ReconnectOptions | false;
+  retry: RetryOptions | undefined;
+}
+
+/**
+ * Options for building a single request.
+ */
+export interface PrepareRequestOptions {
+  /** Session ID sent as `id` in the body */
+  id: string;
+  /** Messages sent in the body, in Chat Completions format */
+  messages: MessageParam[];
+  /** Per-request overrides */
+  requestOptions?: ChatRequestOptions;
+  /** Signal that aborts the request */
+  signal: AbortSignal;
+}
+
+/**
+ * A request ready to send, with the transport values it was built from.
+ */
+export interface PreparedRequest {
+  transport: ResolvedTransport;
+  init: RequestInit;
+}
+
+/**
+ * Get the value of a Resolvable, calling it if it is a function.
+ */
+function resolve<T>(value: Resolvable<T>): T {
+  return typeof value === "function" ? (value as () => T)() : value;
+}
+
+/**
+ * Resolve all transport values at request time.
+ * This ensures dynamic values (functions) are called fresh each request.
+ */
+export function resolveTransport(transport: TransportConfig): ResolvedTransport {
+  return {
+    api: resolve(transport.api),
+    headers: transport.headers && resolve(transport.headers),
+    credentials: transport.credentials && resolve(transport.credentials),
+    body: transport.body && resolve(transport.body),
+    fetch: transport.fetch ?? globalThis.fetch.bind(globalThis),
+    reconnect: transport.reconnect ?? {},
+    retry: transport.retry,
+  };
+}
+
+/**
+ * Build the request for `messages` from the current transport values.
+ */
+export function prepareRequest(
+  transport: TransportConfig,
+  { id, messages, requestOptions, signal }: PrepareRequestOptions
+): PreparedRequest {
+  // Resolve transport values fresh for this request
+  const resolvedTransport = resolveTransport(transport);
+
+  // Merge transport body with request options body
+  const mergedBodyAdditions = {
+    ...resolvedTransport.body,
+    ...requestOptions?.body,
+  };
+
+  // Use prepareRequestBody if provided, otherwise use default
+  const body = transport.prepareRequestBody
+    ? transport.prepareRequestBody({
+        id,
+        messages,
+        body: mergedBodyAdditions,
+      })
+    : {
+        id,
+        messages,
+        ...mergedBodyAdditions,
+      };
+
+  // Merge headers: transport headers + request options headers
+  const mergedHeaders: Record<string, string> = {
+    "Content-Type": "application/json",
+    ...normalizeHeaders(resolvedTransport.headers),
+    ...normalizeHeaders(requestOptions?.headers),
+  };
+
+  return {
+    transport: resolvedTransport,
+    init: {
+      method: "POST",
+      headers: mergedHeaders,
+      body: JSON.stringify(body),
+      credentials: resolvedTransport.credentials,
+      signal,
+    },
+  };
+}
+
+/**
+ * Normalize headers to a plain object
+ */
+export function normalizeHeaders(
+  headers: Record<string, string> | Headers | undefined
+): Record<string, string> {
+  if (!headers) return {};
+  if (headers instanceof Headers) {
+    return Object.fromEntries(headers.entries());
+  }
+  return headers;
+}
+
+/**
+ * Send the request. Throws for non-2xx responses.
+ */
+export async function fetchResponse(
+  fetchFn: typeof globalThis.fetch,
+  api: string,
+  init: RequestInit
+): Promise<Response> {
+  const response = await fetchFn(api, init);
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new DedalusHTTPError(response.status, errorText, response.headers);
+  }
+
+  return response;
+}
+
+/**
+ * Send the request, retrying failures per `transport.retry`. `onRetry` is
+ * called with the error and the failed attempt number before each retry.
+ */
+export async function fetchWithRetry(
+  transport: ResolvedTransport,
+  init: RequestInit,
+  signal: AbortSignal,
+  onRetry: (error: Error, attempt: number) => void
+): Promise<Response> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fetchResponse(transport.fetch, transport.api, init);
+    } catch (err) {
+      const delay = transport.retry
+        ? getRetryDelay(transport.retry, err, attempt)
+        : undefined;
+      if (delay === undefined || signal.aborted) throw err;
+
+      onRetry(err instanceof Error ? err : new Error(String(err)), attempt);
+      await wait(delay, signal);
+    }
+  }
+}
+
+/**
+ * Get the body stream of a streaming response. Throws for empty bodies.
+ */
+export function getResponseBody(
+  response: Response
+): ReadableStream<Uint8Array> {
+  if (!response.body) {
+    throw new Error("Response body is null");
+  }
+
+  return response.body;
+}
+
+/**
+ * Check whether the server answered with a whole ChatCompletion instead of
+ * a stream (see `jsonToResponse`).
+ */
+export function isJsonResponse(response: Response): boolean {
+  return (
+    response.headers.get("Content-Type")?.includes("application/json") ?? false
+  );
+}
+
+/**
+ * Read a JSON response as a ChatCompletion. Throws when the body has no
+ * `choices`, e.g. a server that sent a different object.
+ */
+export async function readJsonCompletion(
+  response: Response
+): Promise<ChatCompletion> {
+  const completion = await response.json();
+  if (!Array.isArray(completion?.choices)) {
+    throw new Error("JSON response is not a ChatCompletion: missing choices");
+  }
+  return completion;
+}
+
+/**
+ * Wait for `ms` milliseconds, rejecting early if the signal aborts.
+ */
+export function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
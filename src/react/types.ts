@@ -10,29 +10,215 @@ export type {
   StreamChunk,
   ChoiceDelta,
   ChoiceDeltaToolCall,
+  CompletionUsage,
+  Completion as ChatCompletion,
 } from "dedalus-labs/resources/chat/completions";
+export type {
+  ResponseFormatJSONObject,
+  ResponseFormatJSONSchema,
+} from "dedalus-labs/resources/shared";
 
+import type { Validator } from "./validate";
 import type {
   ChatCompletionUserMessageParam,
   ChatCompletionAssistantMessageParam,
   ChatCompletionSystemMessageParam,
   ChatCompletionToolMessageParam,
+  ChunkChoice,
+  CompletionUsage,
 } from "dedalus-labs/resources/chat/completions";
+import type {
+  ResponseFormatJSONObject,
+  ResponseFormatJSONSchema,
+} from "dedalus-labs/resources/shared";
 
 /**
  * Union type for all supported message types in a chat conversation.
  * Compatible with OpenAI Chat Completions API message format.
+ * This is the wire format sent to the server.
  */
-export type Message =
+export type MessageParam =
   | ChatCompletionUserMessageParam
   | ChatCompletionAssistantMessageParam
   | ChatCompletionSystemMessageParam
   | ChatCompletionToolMessageParam;
 
-export type DedalusChatStatus = "submitted" | "streaming" | "ready" | "error";
+/**
+ * Default shape of per-message metadata.
+ */
+export type MessageMetadata = Record<string, unknown>;
+
+/**
+ * A message held in chat state: a Chat Completions message with a stable
+ * `id` and an optional typed `metadata` bag (timestamps, model used,
+ * feedback...). `id`, `metadata`, `attachments`, `toolApprovals` and `step`
+ * stay on the client and are stripped before messages are sent.
+ *
+ * @example
+ * ```tsx
+ * messages.map((message) => (
+ *   <ChatBubble key={message.id} message={message} />
+ * ))
+ * ```
+ */
+export type Message<METADATA = MessageMetadata> = MessageParam & {
+  /** Stable identifier, created with `generateId` */
+  id: string;
+  /** Client-side data attached to the message */
+  metadata?: METADATA;
+  /** Files sent with the message, for rendering previews */
+  attachments?: Attachment[];
+  /**
+   * Approval state of the message's tool calls that require approval,
+   * keyed by tool call id (see `ClientTool.requiresApproval`)
+   */
+  toolApprovals?: Record<string, ToolApprovalState>;
+  /**
+   * For assistant messages, the step of the automatic send loop that
+   * produced the message: 0 for a response to the user, then 1, 2... for
+   * each automatic resend (see `maxSteps`)
+   */
+  step?: number;
+};
+
+/**
+ * The sibling versions of a message, created by editing a message or
+ * regenerating a response.
+ */
+export interface MessageBranches {
+  /** Position of the message among its sibling versions */
+  index: number;
+  /** Number of sibling versions, including the message itself */
+  count: number;
+  /** Ids of all sibling versions, oldest first */
+  messageIds: string[];
+}
+
+/**
+ * A message as accepted from callers. An `id` is generated when omitted.
+ */
+export type MessageInput<METADATA = MessageMetadata> = MessageParam & {
+  id?: string;
+  metadata?: METADATA;
+  attachments?: Attachment[];
+  toolApprovals?: Record<string, ToolApprovalState>;
+  step?: number;
+};
+
+/**
+ * A file sent with a message. The file itself is sent as a content part;
+ * this keeps what's needed to render a preview.
+ */
+export interface Attachment {
+  /** File name */
+  name: string;
+  /** MIME type, e.g. `image/png` */
+  contentType: string;
+  /** Size in bytes */
+  size: number;
+  /** Data URL, or the URL returned by `upload`. Usable as an `<img>` src. */
+  url: string;
+}
+
+/**
+ * How files passed to `sendMessage` are checked and sent.
+ */
+export interface AttachmentOptions {
+  /**
+   * Upload a file and return its URL. Images are sent by URL instead of
+   * inline as data URLs.
+   */
+  upload?: (file: File) => Promise<string>;
+  /** Largest accepted file, in bytes. Defaults to 20 MB. */
+  maxSizeBytes?: number;
+  /**
+   * Accepted MIME types; `image/*` style wildcards are supported.
+   * Defaults to `["image/*"]`. Images are sent as `image_url` parts and
+   * other files as `file` parts.
+   */
+  acceptedTypes?: string[];
+}
+
+export type DedalusChatStatus =
+  | "loading"
+  | "submitted"
+  | "streaming"
+  | "ready"
+  | "error";
 
 export type IdGenerator = () => string;
 
+/**
+ * What `sendMessage` does while a response is in progress:
+ * - `"queue"`: send the message after the current turn finishes
+ * - `"interrupt"`: stop the current response and send right away
+ * - `"reject"`: don't send, and call `onError` with a `ChatBusyError`
+ */
+export type ChatConcurrency = "queue" | "interrupt" | "reject";
+
+/**
+ * What `concurrency` did with sends that arrived during a response:
+ * - `"idle"`: nothing is queued, and no send interrupted or was rejected
+ * - `"queued"`: messages are waiting in `queuedMessages`
+ * - `"interrupted"`: the previous response was stopped for the current one
+ * - `"rejected"`: a send was rejected with a `ChatBusyError`
+ *
+ * Returns to `"idle"` once the response finishes with nothing queued.
+ */
+export type ChatConcurrencyStatus =
+  | "idle"
+  | "queued"
+  | "interrupted"
+  | "rejected";
+
+/**
+ * Serializable snapshot of a chat, including inactive branches.
+ * This is what chat storage adapters load and save.
+ */
+export interface ChatSnapshot<METADATA = MessageMetadata> {
+  /** Every message on every branch, parents before children */
+  nodes: Array<{ message: Message<METADATA>; parentId: string | null }>;
+  /** Id of the last message on the active path */
+  headId: string | null;
+  /** Active child for each parent id (null for the first message) */
+  activeChildIds: Array<[parentId: string | null, childId: string]>;
+}
+
+/**
+ * Persistence adapter for chat state, keyed by chat id.
+ * Implement this to store conversations in your own backend.
+ *
+ * @example
+ * ```tsx
+ * const apiStorage: ChatStorage = {
+ *   load: async (id) => {
+ *     const res = await fetch(`/api/chats/${id}`)
+ *     return res.ok ? res.json() : undefined
+ *   },
+ *   save: async (id, snapshot) => {
+ *     await fetch(`/api/chats/${id}`, {
+ *       method: 'PUT',
+ *       body: JSON.stringify(snapshot),
+ *     })
+ *   },
+ * }
+ * ```
+ */
+export interface ChatStorage<METADATA = MessageMetadata> {
+  /** Load a saved chat. Return undefined or null if there is none. */
+  load(
+    id: string,
+  ):
+    | ChatSnapshot<METADATA>
+    | undefined
+    | null
+    | Promise<ChatSnapshot<METADATA> | undefined | null>;
+  /** Save a chat, replacing any previous snapshot. */
+  save(id: string, snapshot: ChatSnapshot<METADATA>): void | Promise<void>;
+  /** Delete a saved chat. */
+  remove?(id: string): void | Promise<void>;
+}
+
 /**
  * A value that can be either static or a function that returns the value.
  * Functions are called at request time and automatically see fresh state.
@@ -54,8 +240,8 @@ export type Resolvable<T> = T | (() => T);
 export interface PrepareRequestBodyOptions {
   /** The chat session ID */
   id: string;
-  /** Current messages in the conversation */
-  messages: Message[];
+  /** Current messages in the conversation, in Chat Completions format */
+  messages: MessageParam[];
   /** Additional body from ChatRequestOptions */
   body?: object;
 }
@@ -128,6 +314,72 @@ export interface TransportConfig {
    * scope - no refs needed.
    */
   prepareRequestBody?: (opts: PrepareRequestBodyOptions) => object;
+
+  /**
+   * Reconnect when the connection drops in the middle of a response.
+   *
+   * Only applies to servers that send SSE `id:` fields (see the `resumable`
+   * option of `streamToWebResponse` / `streamToNodeResponse`). The request is
+   * re-sent with a `Last-Event-ID` header and the stream continues filling
+   * the same assistant message.
+   *
+   * Defaults to 3 attempts, 1 second apart. Set to `false` to disable.
+   */
+  reconnect?: ReconnectOptions | false;
+
+  /**
+   * Retry failed requests before any content has streamed.
+   *
+   * Network errors and retryable statuses (408, 429, 500, 502, 503, 504 by
+   * default) are retried with exponential backoff, honoring `Retry-After`.
+   * Status stays `"submitted"` while retrying, and `onError` is called for
+   * each failed attempt with `willRetry: true`. Disabled by default.
+   *
+   * @example
+   * ```ts
+   * transport: { api: '/api/chat', retry: { maxAttempts: 4 } }
+   * ```
+   */
+  retry?: RetryOptions;
+}
+
+/**
+ * Options for reconnecting to an interrupted stream. A 4xx answer to a
+ * reconnect, such as 404 once the server dropped the buffer, ends the
+ * response without further attempts.
+ */
+export interface ReconnectOptions {
+  /** Maximum consecutive reconnect attempts before giving up. Defaults to 3. */
+  maxAttempts?: number;
+  /**
+   * Delay before each reconnect attempt, in milliseconds. Defaults to the
+   * server's `retry:` field, or 1000 if it sent none.
+   */
+  delayMs?: number;
+}
+
+/**
+ * Options for retrying failed requests.
+ */
+export interface RetryOptions {
+  /** Maximum number of attempts, including the first. Defaults to 3. */
+  maxAttempts?: number;
+  /** Delay before the first retry, in milliseconds. Defaults to 1000. */
+  initialDelayMs?: number;
+  /** Multiplier applied to the delay after each retry. Defaults to 2. */
+  backoffFactor?: number;
+  /**
+   * Longest delay between attempts, in milliseconds. A `Retry-After` longer
+   * than this stops retrying. Defaults to 30000.
+   */
+  maxDelayMs?: number;
+  /** Randomize each delay between half and all of it. Defaults to true. */
+  jitter?: boolean;
+  /**
+   * Whether a response status should be retried. Defaults to 408, 429, 500,
+   * 502, 503 and 504.
+   */
+  isRetryableStatus?: (status: number) => boolean;
 }
 
 /**
@@ -148,25 +400,221 @@ export interface ToolCall {
   };
 }
 
+/**
+ * Kinds of structured tool errors added as tool results.
+ * - `unknown_tool`: the model called a tool that isn't registered
+ * - `invalid_arguments`: the arguments were not valid JSON or failed validation
+ * - `execution_error`: the tool's `execute` function threw
+ * - `denied`: the user denied a tool call that requires approval
+ */
+export type ToolErrorType =
+  | "unknown_tool"
+  | "invalid_arguments"
+  | "execution_error"
+  | "denied";
+
+/**
+ * Approval state of a tool call that requires approval.
+ * - `pending`: waiting for `approveToolCall` or `denyToolCall`
+ * - `approved`: the user approved it and the tool ran
+ * - `denied`: the user denied it and a `denied` error result was added
+ */
+export type ToolApprovalState = "pending" | "approved" | "denied";
+
+/**
+ * Lifecycle state of a tool call.
+ * - `streaming-args`: the arguments are still streaming
+ * - `pending`: waiting for approval, or for a result from app code. Tool
+ *   calls without results that were restored from `storage` or passed in
+ *   `messages` stay `pending` until `addToolResult` or `addToolError`; they
+ *   aren't run again
+ * - `running`: a client tool is executing, or `onToolCall` was called
+ * - `result`: a result was added
+ * - `error`: an error result was added (see `ToolErrorResult`)
+ */
+export type ToolInvocationState =
+  | "streaming-args"
+  | "pending"
+  | "running"
+  | "result"
+  | "error";
+
+/**
+ * When each lifecycle step of a tool call happened, in milliseconds since
+ * the epoch. Steps that haven't happened (or happened before the chat was
+ * loaded) are undefined. Timings are dropped once their tool call is no
+ * longer on any branch, e.g. after `setMessages` or `removeMessage`.
+ */
+export interface ToolCallTiming {
+  /** First streamed piece of the tool call */
+  startedAt?: number;
+  /** End of the response that carried the tool call */
+  argsCompletedAt?: number;
+  /** Client tool started executing, or `onToolCall` was called */
+  runningAt?: number;
+  /** Result added */
+  completedAt?: number;
+}
+
+/**
+ * A tool call of the conversation and its current state, derived from
+ * `messages`.
+ */
+export interface ToolInvocation {
+  /** Id of the tool call */
+  toolCallId: string;
+  /** Name of the called tool */
+  toolName: string;
+  /** Id of the assistant message holding the tool call */
+  messageId: string;
+  /** Where the tool call is in its lifecycle */
+  state: ToolInvocationState;
+  /** Parsed arguments; partial while `streaming-args` */
+  args: unknown;
+  /**
+   * The result: parsed JSON, or the raw string if the tool message content
+   * isn't JSON. Undefined until a result is added.
+   */
+  result: unknown;
+  /** The error, when `state` is `error` */
+  error: ToolErrorResult["error"] | undefined;
+  /** Approval state, for tools that require approval */
+  approval: ToolApprovalState | undefined;
+  /** When each lifecycle step happened */
+  timing: ToolCallTiming;
+}
+
+/**
+ * Result sent back to the model when a tool call fails.
+ * JSON-encoded as the tool message content.
+ */
+export interface ToolErrorResult {
+  error: {
+    type: ToolErrorType;
+    message: string;
+  };
+}
+
+/**
+ * Options passed to a client tool's `execute` function.
+ */
+export interface ClientToolExecuteOptions {
+  /** The tool call being executed */
+  toolCall: ToolCall;
+}
+
+/**
+ * A tool executed in the browser by `useChat`.
+ */
+export interface ClientTool<ARGS = unknown, RESULT = unknown> {
+  /**
+   * Validator for the parsed arguments: a Standard Schema (Zod, Valibot,
+   * ArkType...), an object with `safeParse`, or a function that returns the
+   * arguments or throws. Arguments are passed through unvalidated if omitted.
+   */
+  parameters?: Validator<ARGS>;
+  /**
+   * Hold tool calls until the user approves them with `approveToolCall` or
+   * denies them with `denyToolCall`, instead of running them right away.
+   * Defaults to false.
+   */
+  requiresApproval?: boolean;
+  /**
+   * Run the tool. Strings are sent to the model as-is; other results are
+   * JSON-encoded.
+   */
+  execute: (
+    args: ARGS,
+    opts: ClientToolExecuteOptions,
+  ) => RESULT | Promise<RESULT>;
+}
+
+/**
+ * Client tools keyed by tool name.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type ClientTools = Record<string, ClientTool<any, any>>;
+
 export interface ChatRequestOptions {
   headers?: Record<string, string> | Headers;
   body?: object;
 }
 
+/**
+ * Options for `sendMessage`.
+ */
+export interface SendMessageOptions extends ChatRequestOptions {
+  /** Files to send with the message (see `UseDedalusChatOptions.attachments`) */
+  attachments?: File[] | FileList;
+}
+
 /**
  * Options for the onFinish callback.
  */
-export interface OnFinishOptions {
+export interface OnFinishOptions<METADATA = MessageMetadata> {
   /** The final assistant message */
-  message: Message;
+  message: Message<METADATA>;
   /** All messages in the conversation including the final assistant message */
-  messages: Message[];
+  messages: Message<METADATA>[];
   /** True if the request was aborted by the user */
   isAbort: boolean;
   /** True if a network error caused disconnection */
   isDisconnect: boolean;
   /** True if an error occurred during streaming */
   isError: boolean;
+  /** The request attempt this result came from, starting at 1 */
+  attempt: number;
+  /**
+   * Step of the automatic send loop: 0 for a response to the user, then 1,
+   * 2... for each automatic resend
+   */
+  step: number;
+  /**
+   * True if this was the last step allowed by `maxSteps` and the loop would
+   * otherwise have gone on: the response ended with tool calls, or
+   * `sendAutomaticallyWhen` returned true. No automatic resend follows it.
+   */
+  isStepLimitReached: boolean;
+  /**
+   * Why the model stopped, e.g. `"length"` when the response was truncated.
+   * Undefined if the stream ended without one.
+   */
+  finishReason: FinishReason | undefined;
+  /**
+   * Token usage for this response, summed over every model call in it.
+   * Only sent by servers that request usage (see `includeUsage` in
+   * `runTools`).
+   */
+  usage: CompletionUsage | undefined;
+  /** Model that generated the response */
+  model: string | undefined;
+  /** Id of the chat completion */
+  completionId: string | undefined;
+}
+
+/**
+ * Reason the model stopped generating.
+ */
+export type FinishReason = NonNullable<ChunkChoice["finish_reason"]>;
+
+/**
+ * Token usage reported by the server.
+ */
+export interface ChatUsage {
+  /** Usage of the most recent response */
+  last: CompletionUsage | undefined;
+  /** Usage summed over every response in this chat session */
+  total: CompletionUsage | undefined;
+}
+
+/**
+ * Options for the onError callback.
+ */
+export interface OnErrorOptions {
+  /** The request attempt that failed, starting at 1 */
+  attempt: number;
+  /** True if the request will be retried (see `TransportConfig.retry`) */
+  willRetry: boolean;
 }
 
 /**
@@ -177,12 +625,31 @@ export interface OnToolCallOptions {
   toolCall: ToolCall;
 }
 
+/**
+ * Options for the onToolCallDelta callback.
+ */
+export interface OnToolCallDeltaOptions {
+  /** The tool call accumulated so far; `arguments` is incomplete JSON */
+  toolCall: ToolCall;
+  /** Id of the assistant message the tool call belongs to */
+  messageId: string;
+  /** Arguments text received in this chunk (may be empty) */
+  argumentsDelta: string;
+  /**
+   * The arguments parsed so far (see `parsePartialJson`): strings may be cut
+   * off and properties missing. Undefined until an argument has started.
+   * Parsed when read, so only read it if you need it; the raw text is
+   * `toolCall.function.arguments`.
+   */
+  readonly partialArguments: unknown;
+}
+
 /**
  * Options passed to sendAutomaticallyWhen callback.
  */
-export interface SendAutomaticallyWhenOptions {
+export interface SendAutomaticallyWhenOptions<METADATA = MessageMetadata> {
   /** Current messages in the conversation */
-  messages: Message[];
+  messages: Message<METADATA>[];
 }
 
 /**
@@ -195,7 +662,19 @@ export interface AddToolResultOptions {
   result: unknown;
 }
 
-export interface UseDedalusChatOptions {
+/**
+ * Options for adding a tool error.
+ */
+export interface AddToolErrorOptions {
+  /** Id of the failed tool call */
+  toolCallId: string;
+  /** What went wrong, sent to the model. Errors send their message. */
+  error: unknown;
+  /** Kind of failure. Defaults to `execution_error`. */
+  type?: ToolErrorType;
+}
+
+export interface UseDedalusChatOptions<METADATA = MessageMetadata> {
   /**
    * Transport configuration for chat requests.
    * All properties can be static values or functions that return values.
@@ -230,22 +709,95 @@ export interface UseDedalusChatOptions {
 
   /**
    * Initial messages to populate the chat.
+   * Messages without an `id` are assigned one.
    */
-  messages?: Message[];
+  messages?: MessageInput<METADATA>[];
 
   /**
-   * Function to generate unique IDs for messages.
+   * Function to generate unique IDs for the chat session and its messages.
    * Defaults to crypto.randomUUID.
    */
   generateId?: IdGenerator;
 
   /**
-   * Callback when an error occurs during streaming.
+   * Persist the conversation across reloads.
+   *
+   * The chat for `id` is loaded on mount (status is `"loading"` while an
+   * async adapter loads) and saved whenever the messages change outside of
+   * a streaming response, so each finished turn is saved once. Messages
+   * sent while loading wait for the saved chat to be restored. If loading
+   * fails, the chat is not saved, so the stored history isn't overwritten.
+   *
+   * @example
+   * ```tsx
+   * useChat({
+   *   id: chatId,
+   *   storage: new LocalStorageChatStorage(),
+   *   transport: { api: '/api/chat' },
+   * })
+   * ```
+   */
+  storage?: ChatStorage<METADATA>;
+
+  /**
+   * Also save while a response is streaming, so a partial answer survives
+   * a reload. Defaults to false.
+   */
+  persistPartialMessages?: boolean;
+
+  /**
+   * Batch message updates while a response streams, to re-render at most
+   * once per `throttleMs` milliseconds (or once per animation frame with
+   * "animationFrame") instead of once per token. The final update is always
+   * rendered when the stream ends. Defaults to no throttling.
+   *
+   * @example
+   * ```tsx
+   * useChat({ transport: { api: '/api/chat' }, throttleMs: 50 })
+   * ```
+   */
+  throttleMs?: number | "animationFrame";
+
+  /**
+   * How files passed to `sendMessage` are validated and sent.
+   *
+   * @example
+   * ```tsx
+   * const { sendMessage } = useChat({
+   *   transport: { api: '/api/chat' },
+   *   attachments: { maxSizeBytes: 5 * 1024 * 1024 },
+   * })
+   *
+   * <input type="file" multiple onChange={(e) =>
+   *   sendMessage('What is in these images?', { attachments: e.target.files! })
+   * } />
+   * ```
+   */
+  attachments?: AttachmentOptions;
+
+  /**
+   * What `sendMessage` does while a response is in progress. Defaults to
+   * `"queue"`: queued messages are listed in `queuedMessages` and sent one
+   * by one as each turn finishes (including tool calls and automatic
+   * sends). `stop()` drops the queue.
+   */
+  concurrency?: ChatConcurrency;
+
+  /**
+   * Callback when an error occurs during streaming, or when loading or
+   * saving with `storage` fails. Errors the server reports inside the
+   * stream are `DedalusStreamError`s with a `code` and `retryable` flag;
+   * non-2xx responses are `DedalusHTTPError`s with a `status`.
+   *
+   * With `transport.retry`, this is also called for each failed attempt that
+   * will be retried, with `willRetry: true`. Errors thrown after tool
+   * results are added, e.g. by `sendAutomaticallyWhen`, also land here and
+   * in `error`.
    *
    * This callback automatically sees the latest values from your component's
    * scope - no refs needed.
    */
-  onError?: (error: Error) => void;
+  onError?: (error: Error, options: OnErrorOptions) => void;
 
   /**
    * Callback when the assistant finishes responding.
@@ -253,11 +805,40 @@ export interface UseDedalusChatOptions {
    * This callback automatically sees the latest values from your component's
    * scope - no refs needed.
    */
-  onFinish?: (opts: OnFinishOptions) => void;
+  onFinish?: (opts: OnFinishOptions<METADATA>) => void;
+
+  /**
+   * Tools executed automatically in the browser, keyed by tool name.
+   *
+   * When the assistant calls one of these tools, its arguments are parsed
+   * and validated, the tool runs, and its result (or a structured
+   * `ToolErrorResult`) is added as a tool message. Results from one response
+   * are added together, then `sendAutomaticallyWhen` is checked.
+   *
+   * Tool calls for names not in `tools` go to `onToolCall` if provided, and
+   * otherwise get an `unknown_tool` error result.
+   *
+   * @example
+   * ```tsx
+   * useChat({
+   *   tools: {
+   *     getWeather: {
+   *       parameters: z.object({ city: z.string() }),
+   *       execute: async ({ city }) => fetchWeather(city),
+   *     },
+   *   },
+   *   sendAutomaticallyWhen: ({ messages }) =>
+   *     messages[messages.length - 1]?.role === 'tool',
+   * })
+   * ```
+   */
+  tools?: ClientTools;
 
   /**
    * Called when a tool call is received from the assistant.
-   * Use `addToolResult` to provide the tool's output.
+   * Use `addToolResult` to provide the tool's output. If it throws or
+   * rejects, the error goes to `onError` and `error`; the tool call stays
+   * pending until a result is added.
    *
    * This callback automatically sees the latest values from your component's
    * scope - no refs needed.
@@ -277,10 +858,35 @@ export interface UseDedalusChatOptions {
    */
   onToolCall?: (opts: OnToolCallOptions) => void | Promise<void>;
 
+  /**
+   * Called for each streamed piece of a tool call, before the call is
+   * complete and `onToolCall` fires. Use it to show progress for tools with
+   * long arguments. Only the tool calls of the active response (choice 0)
+   * are reported.
+   *
+   * This callback automatically sees the latest values from your component's
+   * scope - no refs needed.
+   *
+   * @example
+   * ```tsx
+   * useChat({
+   *   onToolCallDelta: ({ toolCall, partialArguments }) => {
+   *     if (toolCall.function.name === 'saveFile') {
+   *       const { content } = (partialArguments ?? {}) as { content?: string }
+   *       setProgress(content?.length ?? 0)
+   *     }
+   *   },
+   * })
+   * ```
+   */
+  onToolCallDelta?: (opts: OnToolCallDeltaOptions) => void;
+
   /**
    * When provided, this function is called after the stream finishes or after
    * a tool result is added. If it returns true, the conversation is
-   * automatically resubmitted to get another response.
+   * automatically resubmitted to get another response. It is not called
+   * while any tool call of the last response is still waiting for a result,
+   * e.g. for approval.
    *
    * This is useful for agentic flows where tool calls should be automatically
    * executed and the results sent back to the model.
@@ -300,11 +906,36 @@ export interface UseDedalusChatOptions {
    * ```
    */
   sendAutomaticallyWhen?: (
-    opts: SendAutomaticallyWhenOptions
+    opts: SendAutomaticallyWhenOptions<METADATA>
   ) => boolean | Promise<boolean>;
+
+  /**
+   * Maximum number of responses in one automatic send loop, counting the
+   * response to the user's message. Once reached, no automatic resend is
+   * sent, and `onFinish` reports `isStepLimitReached` if the response had
+   * tool calls or `sendAutomaticallyWhen` returned true.
+   * Defaults to no limit.
+   *
+   * @example
+   * ```tsx
+   * useChat({
+   *   tools,
+   *   sendAutomaticallyWhen: ({ messages }) =>
+   *     messages[messages.length - 1]?.role === 'tool',
+   *   maxSteps: 5,
+   * })
+   * ```
+   */
+  maxSteps?: number;
 }
 
-export interface UseDedalusChatReturn {
+/**
+ * Options for a `ChatController`: the same options `useChat` takes.
+ */
+export type ChatControllerOptions<METADATA = MessageMetadata> =
+  UseDedalusChatOptions<METADATA>;
+
+export interface UseDedalusChatReturn<METADATA = MessageMetadata> {
   /**
    * The unique identifier for the chat session.
    */
@@ -313,7 +944,7 @@ export interface UseDedalusChatReturn {
   /**
    * The current list of messages in the chat.
    */
-  messages: Message[];
+  messages: Message<METADATA>[];
 
   /**
    * The current status of the chat.
@@ -325,27 +956,141 @@ export interface UseDedalusChatReturn {
    */
   error: Error | undefined;
 
+  /**
+   * Token usage of the most recent response, if the server sent it.
+   */
+  lastUsage: CompletionUsage | undefined;
+
+  /**
+   * Token usage summed over every response since the chat was created.
+   */
+  totalUsage: CompletionUsage | undefined;
+
   /**
    * Send a message to the chat.
    * Can be a string (creates a user message) or a full Message object.
+   * Files in `options.attachments` are added to the message content; if one
+   * is rejected, nothing is sent and `onError` receives an `AttachmentError`
+   * (also set as `error` unless a response is streaming).
    */
   sendMessage: (
-    message: Message | string,
-    options?: ChatRequestOptions,
+    message: MessageInput<METADATA> | string,
+    options?: SendMessageOptions,
   ) => Promise<void>;
 
+  /**
+   * Messages waiting to be sent after the current response, oldest first
+   * (see `concurrency`).
+   */
+  queuedMessages: Message<METADATA>[];
+
+  /**
+   * Remove a queued message before it's sent.
+   */
+  cancelQueuedMessage: (id: string) => void;
+
+  /**
+   * What `concurrency` last did with a request made while a response was in
+   * progress: `"queued"` while messages wait, `"interrupted"` or
+   * `"rejected"` until the chat settles, then back to `"idle"`.
+   */
+  concurrencyStatus: ChatConcurrencyStatus;
+
   /**
    * Update the messages array directly.
+   * Messages without an `id` are assigned one. This replaces the whole
+   * conversation, including inactive branches, with a single branch.
    */
   setMessages: (
-    messages: Message[] | ((messages: Message[]) => Message[]),
+    messages:
+      | MessageInput<METADATA>[]
+      | ((messages: Message<METADATA>[]) => MessageInput<METADATA>[]),
+  ) => void;
+
+  /**
+   * Update a single message by id.
+   * The updater receives the current message and returns its replacement.
+   *
+   * @example
+   * ```tsx
+   * updateMessage(message.id, (message) => ({
+   *   ...message,
+   *   metadata: { ...message.metadata, feedback: 'thumbs-up' },
+   * }))
+   * ```
+   */
+  updateMessage: (
+    id: string,
+    updater: (message: Message<METADATA>) => MessageInput<METADATA>,
   ) => void;
 
+  /**
+   * Remove a single message by id.
+   */
+  removeMessage: (id: string) => void;
+
   /**
    * Stop the current streaming response.
    */
   stop: () => void;
 
+  /**
+   * Regenerate the response to the last user message.
+   *
+   * Removes the assistant (and tool) messages after the last user message
+   * from the active path and sends the conversation again. The previous
+   * response is kept as a sibling version (see `getBranches`). Pass
+   * request options to change the request, e.g. to re-roll the answer with
+   * another model.
+   *
+   * @example
+   * ```tsx
+   * <button onClick={() => regenerate({ body: { model: 'openai/gpt-4o' } })}>
+   *   Try again
+   * </button>
+   * ```
+   */
+  regenerate: (options?: ChatRequestOptions) => Promise<void>;
+
+  /**
+   * Edit a message by adding a new sibling version of it.
+   *
+   * The original message and everything after it are kept as an inactive
+   * branch. Editing a user message sends the conversation again.
+   */
+  editMessage: (
+    messageId: string,
+    message: MessageInput<METADATA> | string,
+    options?: ChatRequestOptions,
+  ) => Promise<void>;
+
+  /**
+   * Get the sibling versions of a message, for "< 2/3 >" style navigation.
+   * Responses requested with `n > 1` have one version per choice.
+   */
+  getBranches: (messageId: string) => MessageBranches;
+
+  /**
+   * Switch the active path to the sibling version at `index`. Picking a
+   * candidate from an `n > 1` response that completed in this session runs
+   * its tool calls, or holds them for approval, like those of a new
+   * response. Tool calls of stopped or restored responses stay pending.
+   *
+   * @example
+   * ```tsx
+   * const { index, count } = getBranches(message.id)
+   *
+   * <button
+   *   disabled={index === 0}
+   *   onClick={() => switchBranch(message.id, index - 1)}
+   * >
+   *   &lt;
+   * </button>
+   * <span>{index + 1}/{count}</span>
+   * ```
+   */
+  switchBranch: (messageId: string, index: number) => void;
+
   /**
    * Add a tool result to the conversation.
    *
@@ -363,4 +1108,344 @@ export interface UseDedalusChatReturn {
    * ```
    */
   addToolResult: (opts: AddToolResultOptions) => void;
+
+  /**
+   * Add a structured error result for a tool call (see `ToolErrorResult`),
+   * the failure counterpart of `addToolResult`.
+   *
+   * @example
+   * ```tsx
+   * useChat({
+   *   onToolCall: async ({ toolCall }) => {
+   *     try {
+   *       addToolResult({ toolCallId: toolCall.id, result: await run(toolCall) })
+   *     } catch (error) {
+   *       addToolError({ toolCallId: toolCall.id, error })
+   *     }
+   *   },
+   * })
+   * ```
+   */
+  addToolError: (opts: AddToolErrorOptions) => void;
+
+  /**
+   * Every tool call on the active path with its state, parsed arguments,
+   * result and timings, oldest first.
+   *
+   * @example
+   * ```tsx
+   * toolInvocations.map((invocation) =>
+   *   invocation.state === 'running' ? (
+   *     <Spinner key={invocation.toolCallId} label={invocation.toolName} />
+   *   ) : invocation.state === 'error' ? (
+   *     <Failure key={invocation.toolCallId} message={invocation.error!.message} />
+   *   ) : null
+   * )
+   * ```
+   */
+  toolInvocations: ToolInvocation[];
+
+  /**
+   * Run a tool call that is waiting for approval (see
+   * `ClientTool.requiresApproval`) and add its result.
+   *
+   * @example
+   * ```tsx
+   * {message.role === 'assistant' &&
+   *   message.tool_calls?.map((toolCall) =>
+   *     message.toolApprovals?.[toolCall.id] === 'pending' && (
+   *       <div key={toolCall.id}>
+   *         Send this email?
+   *         <button onClick={() => approveToolCall(toolCall.id)}>Send</button>
+   *         <button onClick={() => denyToolCall(toolCall.id)}>Cancel</button>
+   *       </div>
+   *     )
+   *   )}
+   * ```
+   */
+  approveToolCall: (toolCallId: string) => Promise<void>;
+
+  /**
+   * Deny a tool call that is waiting for approval. Adds a `denied` tool
+   * error result with `reason` (or a default explanation) for the model.
+   */
+  denyToolCall: (toolCallId: string, reason?: string) => void;
+}
+
+/**
+ * Options for the onFinish callback of `useCompletion`.
+ */
+export interface OnCompletionFinishOptions {
+  /** The prompt that was completed */
+  prompt: string;
+  /** The final completion text */
+  completion: string;
+  /** True if the request was aborted by the user */
+  isAbort: boolean;
+  /** True if an error occurred during streaming */
+  isError: boolean;
+  /** Why the model stopped. Undefined if the stream ended without one. */
+  finishReason: FinishReason | undefined;
+  /** Token usage for this completion, if the server sent it */
+  usage: CompletionUsage | undefined;
+  /** Model that generated the completion */
+  model: string | undefined;
+  /** Id of the chat completion */
+  completionId: string | undefined;
+}
+
+export interface UseCompletionOptions {
+  /**
+   * Transport configuration for completion requests, as for `useChat`.
+   * The prompt is sent as a single user message in `messages`. `retry` is
+   * honored; `reconnect` is not, since a completion has no history to
+   * resume into.
+   *
+   * @example
+   * ```tsx
+   * useCompletion({
+   *   transport: {
+   *     api: '/api/completion',
+   *     body: () => ({ model: selectedModel }),
+   *   },
+   * })
+   * ```
+   */
+  transport: TransportConfig;
+
+  /**
+   * Identifier sent as `id` in the request body.
+   * If not provided, a random one will be generated.
+   */
+  id?: string;
+
+  /**
+   * Initial value of `completion`.
+   */
+  initialCompletion?: string;
+
+  /**
+   * Initial value of `input`.
+   */
+  initialInput?: string;
+
+  /**
+   * Callback when an error occurs, including failed attempts that will be
+   * retried (see `TransportConfig.retry`).
+   *
+   * This callback automatically sees the latest values from your component's
+   * scope - no refs needed.
+   */
+  onError?: (error: Error, options: OnErrorOptions) => void;
+
+  /**
+   * Callback when the completion finishes, is stopped or fails.
+   *
+   * This callback automatically sees the latest values from your component's
+   * scope - no refs needed.
+   */
+  onFinish?: (opts: OnCompletionFinishOptions) => void;
+}
+
+export interface UseCompletionReturn {
+  /**
+   * The completion text, updated as it streams.
+   */
+  completion: string;
+
+  /**
+   * Complete a prompt, replacing the current completion. Resolves with the
+   * final text, or undefined if the request failed. A request still in
+   * progress is aborted.
+   *
+   * @example
+   * ```tsx
+   * const summary = await complete(`Summarize: ${article}`)
+   * ```
+   */
+  complete: (
+    prompt: string,
+    options?: ChatRequestOptions,
+  ) => Promise<string | undefined>;
+
+  /**
+   * Update the completion text directly.
+   */
+  setCompletion: (completion: string) => void;
+
+  /**
+   * Stop the current request, keeping the text received so far.
+   */
+  stop: () => void;
+
+  /**
+   * The current status of the request.
+   */
+  status: DedalusChatStatus;
+
+  /**
+   * The current error, if any.
+   */
+  error: Error | undefined;
+
+  /**
+   * The current value of the input field.
+   */
+  input: string;
+
+  /**
+   * Update the input field value.
+   */
+  setInput: (input: string) => void;
+
+  /**
+   * Change handler for an `<input>` or `<textarea>` bound to `input`.
+   */
+  handleInputChange: (event: { target: { value: string } }) => void;
+
+  /**
+   * Submit handler for a form: completes `input` as the prompt.
+   *
+   * @example
+   * ```tsx
+   * <form onSubmit={handleSubmit}>
+   *   <input value={input} onChange={handleInputChange} />
+   * </form>
+   * ```
+   */
+  handleSubmit: (event?: { preventDefault?: () => void }) => void;
+}
+
+/**
+ * Structured output format requested with `response_format`.
+ */
+export type ResponseFormat = ResponseFormatJSONObject | ResponseFormatJSONSchema;
+
+/**
+ * A value with every property, at any depth, optional: the shape of an
+ * object that is still streaming.
+ */
+export type DeepPartial<T> = T extends (infer U)[]
+  ? DeepPartial<U>[]
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+/**
+ * Options for the onFinish callback of `useObject`.
+ */
+export interface OnObjectFinishOptions<T> {
+  /** The validated object, or undefined if the request or validation failed */
+  object: T | undefined;
+  /** The error, if the request or validation failed */
+  error: Error | undefined;
+  /** The raw JSON text of the response */
+  text: string;
+  /** True if the request was aborted by the user */
+  isAbort: boolean;
+  /** Why the model stopped. Undefined if the stream ended without one. */
+  finishReason: FinishReason | undefined;
+  /** Token usage for the response, if the server sent it */
+  usage: CompletionUsage | undefined;
+}
+
+export interface UseObjectOptions<T> {
+  /**
+   * Transport configuration for requests, as for `useChat`.
+   */
+  transport: TransportConfig;
+
+  /**
+   * Identifier sent as `id` in the request body.
+   * If not provided, a random one will be generated.
+   */
+  id?: string;
+
+  /**
+   * Validates the final object: a Standard Schema (Zod, Valibot, ArkType),
+   * an object with `safeParse`, or a function that returns the value or
+   * throws. Without one, the parsed JSON is used as is.
+   */
+  schema?: Validator<T>;
+
+  /**
+   * Sent as `response_format` in the request body, for servers that pass it
+   * to the model (see `toObjectParams` in `dedalus-react/server`).
+   *
+   * @example
+   * ```tsx
+   * useObject({
+   *   transport: { api: '/api/recipe' },
+   *   schema: recipeSchema,
+   *   responseFormat: {
+   *     type: 'json_schema',
+   *     json_schema: { name: 'recipe', schema: recipeJsonSchema, strict: true },
+   *   },
+   * })
+   * ```
+   */
+  responseFormat?: ResponseFormat;
+
+  /**
+   * Initial value of `object`.
+   */
+  initialValue?: DeepPartial<T>;
+
+  /**
+   * Callback when an error occurs, including validation failures and failed
+   * attempts that will be retried (see `TransportConfig.retry`).
+   *
+   * This callback automatically sees the latest values from your component's
+   * scope - no refs needed.
+   */
+  onError?: (error: Error, options: OnErrorOptions) => void;
+
+  /**
+   * Callback when the object finishes streaming, is stopped or fails.
+   *
+   * This callback automatically sees the latest values from your component's
+   * scope - no refs needed.
+   */
+  onFinish?: (opts: OnObjectFinishOptions<T>) => void;
+}
+
+export interface UseObjectReturn<T> {
+  /**
+   * The object parsed so far. While streaming, any property may still be
+   * missing and strings may be cut off; once the stream ends it is the
+   * validated object.
+   */
+  object: DeepPartial<T> | undefined;
+
+  /**
+   * Request an object, replacing the current one. Takes a prompt (sent as a
+   * user message) or a list of messages. Resolves with the validated object,
+   * or undefined if the request or validation failed. A request still in
+   * progress is aborted.
+   *
+   * @example
+   * ```tsx
+   * <button onClick={() => submit('A recipe for pancakes')}>Generate</button>
+   * ```
+   */
+  submit: (
+    input: string | MessageParam[],
+    options?: ChatRequestOptions,
+  ) => Promise<T | undefined>;
+
+  /**
+   * Stop the current request, keeping the partial object.
+   */
+  stop: () => void;
+
+  /**
+   * The current status of the request.
+   */
+  status: DedalusChatStatus;
+
+  /**
+   * The current error, if any. A `ValidationError` when the response was not
+   * valid JSON or failed `schema`.
+   */
+  error: Error | undefined;
 }
@@ -0,0 +1,180 @@
+"use client";
+import { useCallback, useRef, useState } from "react";
+import { createTextResult, readTextResponse } from "./read-text-response";
+import { fetchWithRetry } from "./transport";
+import { useStableCallback } from "./use-stable-callback";
+import { useTransport } from "./use-transport";
+import type {
+  ChatRequestOptions,
+  DedalusChatStatus,
+  UseCompletionOptions,
+  UseCompletionReturn,
+} from "./types";
+
+/**
+ * A hook for single-shot prompts: streams the response to one prompt into a
+ * string, with no message history.
+ *
+ * Requests use the same `TransportConfig` and wire format as `useChat`, so
+ * the same server route can serve both.
+ *
+ * @example
+ * ```tsx
+ * const { completion, input, handleInputChange, handleSubmit, status } =
+ *   useCompletion({ transport: { api: '/api/completion' } })
+ *
+ * <form onSubmit={handleSubmit}>
+ *   <input value={input} onChange={handleInputChange} />
+ *   <button disabled={status === 'streaming'}>Generate</button>
+ * </form>
+ * <p>{completion}</p>
+ * ```
+ */
+export function useCompletion(
+  options: UseCompletionOptions
+): UseCompletionReturn {
+  const {
+    transport,
+    id: providedId,
+    initialCompletion = "",
+    initialInput = "",
+  } = options;
+
+  const stableOnError = useStableCallback(options.onError);
+  const stableOnFinish = useStableCallback(options.onFinish);
+
+  // Builds each request from the latest transport values
+  const prepareRequest = useTransport(transport);
+
+  const idRef = useRef<string>(providedId ?? crypto.randomUUID());
+  if (providedId && providedId !== idRef.current) {
+    idRef.current = providedId;
+  }
+
+  const [completion, setCompletion] = useState(initialCompletion);
+  const [status, setStatus] = useState<DedalusChatStatus>("ready");
+  const [error, setError] = useState<Error | undefined>(undefined);
+  const [input, setInput] = useState(initialInput);
+
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const stop = useCallback(() => {
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+      abortControllerRef.current = null;
+    }
+    setStatus("ready");
+  }, []);
+
+  const complete = useCallback(
+    async (
+      prompt: string,
+      requestOptions?: ChatRequestOptions
+    ): Promise<string | undefined> => {
+      // A new prompt replaces the one in progress
+      abortControllerRef.current?.abort();
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      const isCurrent = () => abortControllerRef.current === abortController;
+
+      setStatus("submitted");
+      setError(undefined);
+      setCompletion("");
+
+      const result = createTextResult();
+      let isAbort = false;
+      let isError = false;
+      let attempt = 1;
+
+      try {
+        const { transport: resolvedTransport, init } = prepareRequest({
+          id: idRef.current,
+          messages: [{ role: "user", content: prompt }],
+          requestOptions,
+          signal: abortController.signal,
+        });
+
+        const response = await fetchWithRetry(
+          resolvedTransport,
+          init,
+          abortController.signal,
+          (err, failedAttempt) => {
+            stableOnError?.(err, { attempt: failedAttempt, willRetry: true });
+            attempt = failedAttempt + 1;
+          }
+        );
+
+        setStatus("streaming");
+        await readTextResponse(
+          response,
+          abortController.signal,
+          result,
+          setCompletion
+        );
+        isAbort = abortController.signal.aborted;
+
+        if (isCurrent()) {
+          setStatus("ready");
+          abortControllerRef.current = null;
+        }
+        return result.text;
+      } catch (err) {
+        if (err instanceof Error && err.name === "AbortError") {
+          isAbort = true;
+          return result.text;
+        }
+
+        isError = true;
+        const error = err instanceof Error ? err : new Error(String(err));
+        if (isCurrent()) {
+          setError(error);
+          setStatus("error");
+          abortControllerRef.current = null;
+        }
+        stableOnError?.(error, { attempt, willRetry: false });
+        return undefined;
+      } finally {
+        stableOnFinish?.({
+          prompt,
+          completion: result.text,
+          isAbort,
+          isError,
+          finishReason: result.finishReason,
+          usage: result.usage,
+          model: result.model,
+          completionId: result.completionId,
+        });
+      }
+    },
+    [prepareRequest, stableOnError, stableOnFinish]
+  );
+
+  const handleInputChange = useCallback(
+    (event: { target: { value: string } }) => {
+      setInput(event.target.value);
+    },
+    []
+  );
+
+  const handleSubmit = useCallback(
+    (event?: { preventDefault?: () => void }) => {
+      event?.preventDefault?.();
+      if (!input) return;
+      void complete(input);
+    },
+    [complete, input]
+  );
+
+  return {
+    completion,
+    complete,
+    setCompletion,
+    stop,
+    status,
+    error,
+    input,
+    setInput,
+    handleInputChange,
+    handleSubmit,
+  };
+}
@@ -0,0 +1,213 @@
+"use client";
+import { useCallback, useLayoutEffect, useRef, useState } from "react";
+import { parsePartialJson } from "./parse-partial-json";
+import { createTextResult, readTextResponse } from "./read-text-response";
+import { fetchWithRetry } from "./transport";
+import { useStableCallback } from "./use-stable-callback";
+import { useTransport } from "./use-transport";
+import { validate, ValidationError } from "./validate";
+import type {
+  ChatRequestOptions,
+  DeepPartial,
+  DedalusChatStatus,
+  MessageParam,
+  UseObjectOptions,
+  UseObjectReturn,
+} from "./types";
+
+/**
+ * A hook for structured output: streams a JSON response and exposes the
+ * object parsed so far, so fields render as they arrive.
+ *
+ * Partial JSON is parsed tolerantly while streaming (see
+ * `parsePartialJson`). When the stream ends, the full text must be valid
+ * JSON and pass `schema`; otherwise `error` is set to a `ValidationError`.
+ *
+ * @example
+ * ```tsx
+ * const { object, submit, status } = useObject({
+ *   transport: { api: '/api/recipe' },
+ *   schema: z.object({
+ *     title: z.string(),
+ *     steps: z.array(z.string()),
+ *   }),
+ *   responseFormat: { type: 'json_object' },
+ * })
+ *
+ * <button onClick={() => submit('A recipe for pancakes')}>Generate</button>
+ * <h2>{object?.title}</h2>
+ * <ol>{object?.steps?.map((step, i) => <li key={i}>{step}</li>)}</ol>
+ * ```
+ */
+export function useObject<T>(options: UseObjectOptions<T>): UseObjectReturn<T> {
+  const { transport, id: providedId, initialValue } = options;
+
+  const stableOnError = useStableCallback(options.onError);
+  const stableOnFinish = useStableCallback(options.onFinish);
+
+  // Builds each request from the latest transport values
+  const prepareRequest = useTransport(transport);
+
+  // Always use the latest schema and response format
+  const schemaRef = useRef(options.schema);
+  const responseFormatRef = useRef(options.responseFormat);
+  useLayoutEffect(() => {
+    schemaRef.current = options.schema;
+    responseFormatRef.current = options.responseFormat;
+  });
+
+  const idRef = useRef<string>(providedId ?? crypto.randomUUID());
+  if (providedId && providedId !== idRef.current) {
+    idRef.current = providedId;
+  }
+
+  const [object, setObject] = useState<DeepPartial<T> | undefined>(
+    initialValue
+  );
+  const [status, setStatus] = useState<DedalusChatStatus>("ready");
+  const [error, setError] = useState<Error | undefined>(undefined);
+
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const stop = useCallback(() => {
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+      abortControllerRef.current = null;
+    }
+    setStatus("ready");
+  }, []);
+
+  const submit = useCallback(
+    async (
+      input: string | MessageParam[],
+      requestOptions?: ChatRequestOptions
+    ): Promise<T | undefined> => {
+      // A new request replaces the one in progress
+      abortControllerRef.current?.abort();
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      const isCurrent = () => abortControllerRef.current === abortController;
+
+      setStatus("submitted");
+      setError(undefined);
+      setObject(undefined);
+
+      const result = createTextResult();
+      let finalObject: T | undefined;
+      let finalError: Error | undefined;
+      let isAbort = false;
+      let attempt = 1;
+
+      // Only re-parse when the text has grown since the last parse
+      let parsedLength = 0;
+      const onText = (text: string) => {
+        if (text.length === parsedLength) return;
+        parsedLength = text.length;
+        const partial = parsePartialJson(text);
+        if (partial === undefined) return;
+        if (isCurrent()) setObject(partial as DeepPartial<T>);
+      };
+
+      const responseFormat = responseFormatRef.current;
+
+      try {
+        const { transport: resolvedTransport, init } = prepareRequest({
+          id: idRef.current,
+          messages:
+            typeof input === "string"
+              ? [{ role: "user", content: input }]
+              : input,
+          requestOptions: {
+            ...requestOptions,
+            body: {
+              ...(responseFormat && { response_format: responseFormat }),
+              ...requestOptions?.body,
+            },
+          },
+          signal: abortController.signal,
+        });
+
+        const response = await fetchWithRetry(
+          resolvedTransport,
+          init,
+          abortController.signal,
+          (err, failedAttempt) => {
+            stableOnError?.(err, { attempt: failedAttempt, willRetry: true });
+            attempt = failedAttempt + 1;
+          }
+        );
+
+        setStatus("streaming");
+        await readTextResponse(
+          response,
+          abortController.signal,
+          result,
+          onText
+        );
+
+        if (abortController.signal.aborted) {
+          isAbort = true;
+          return undefined;
+        }
+
+        // The complete text must be valid JSON that passes the schema
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(result.text);
+        } catch (err) {
+          throw new ValidationError(
+            `Response is not valid JSON: ${err instanceof Error ? err.message : String(err)}`,
+            err
+          );
+        }
+        const schema = schemaRef.current;
+        if (schema) {
+          const validation = await validate(schema, parsed);
+          if (!validation.success) throw validation.error;
+          finalObject = validation.value;
+        } else {
+          finalObject = parsed as T;
+        }
+
+        if (isCurrent()) {
+          setObject(finalObject as DeepPartial<T>);
+          setStatus("ready");
+          abortControllerRef.current = null;
+        }
+        return finalObject;
+      } catch (err) {
+        if (err instanceof Error && err.name === "AbortError") {
+          isAbort = true;
+          return undefined;
+        }
+
+        finalError = err instanceof Error ? err : new Error(String(err));
+        if (isCurrent()) {
+          setError(finalError);
+          setStatus("error");
+          abortControllerRef.current = null;
+        }
+        stableOnError?.(finalError, { attempt, willRetry: false });
+        return undefined;
+      } finally {
+        stableOnFinish?.({
+          object: finalObject,
+          error: finalError,
+          text: result.text,
+          isAbort,
+          finishReason: result.finishReason,
+          usage: result.usage,
+        });
+      }
+    },
+    [prepareRequest, stableOnError, stableOnFinish]
+  );
+
+  return {
+    object,
+    submit,
+    stop,
+    status,
+    error,
+  };
+}
@@ -0,0 +1,42 @@
+"use client";
+import { useCallback, useLayoutEffect, useRef } from "react";
+import {
+  prepareRequest,
+  type PrepareRequestOptions,
+  type PreparedRequest,
+} from "./transport";
+import type { TransportConfig } from "./types";
+
+/**
+ * Turn a `TransportConfig` into a stable function that builds requests.
+ *
+ * The returned function keeps its identity while always building requests
+ * from the latest transport, resolving function values fresh for each request.
+ *
+ * @example
+ * ```tsx
+ * const prepareRequest = useTransport(transport)
+ *
+ * const { transport: resolved, init } = prepareRequest({
+ *   id,
+ *   messages,
+ *   signal: abortController.signal,
+ * })
+ * const response = await resolved.fetch(resolved.api, init)
+ * ```
+ */
+export function useTransport(
+  transport: TransportConfig
+): (options: PrepareRequestOptions) => PreparedRequest {
+  // Always use the latest transport without changing the function identity
+  const transportRef = useRef(transport);
+  useLayoutEffect(() => {
+    transportRef.current = transport;
+  });
+
+  return useCallback(
+    (options: PrepareRequestOptions) =>
+      prepareRequest(transportRef.current, options),
+    []
+  );
+}
@@ -0,0 +1,112 @@
+/**
+ * A schema implementing the Standard Schema interface
+ * (Zod 3.24+, Valibot, ArkType, ...).
+ */
+export interface StandardSchemaLike<T> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly validate: (
+      value: unknown,
+    ) => StandardSchemaResult<T> | Promise<StandardSchemaResult<T>>;
+  };
+}
+
+type StandardSchemaResult<T> =
+  | { readonly value: T; readonly issues?: undefined }
+  | {
+      readonly issues: ReadonlyArray<{
+        readonly message: string;
+        readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+      }>;
+    };
+
+/**
+ * A schema with a `safeParse` method (e.g. Zod).
+ */
+export interface SafeParseSchemaLike<T> {
+  safeParse: (
+    value: unknown,
+  ) => { success: true; data: T } | { success: false; error: unknown };
+}
+
+/**
+ * Anything that can validate a value into a `T`: a Standard Schema, a schema
+ * with `safeParse`, or a function that returns the value or throws.
+ */
+export type Validator<T> =
+  | StandardSchemaLike<T>
+  | SafeParseSchemaLike<T>
+  | ((value: unknown) => T);
+
+export type ValidationResult<T> =
+  | { success: true; value: T }
+  | { success: false; error: ValidationError };
+
+/**
+ * Error for a value that failed validation.
+ */
+export class ValidationError extends Error {
+  /** The validator's own error or issues, for detailed reporting */
+  readonly cause: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = "ValidationError";
+    this.cause = cause;
+  }
+}
+
+/**
+ * Validate `value` with any supported validator.
+ */
+export async function validate<T>(
+  validator: Validator<T>,
+  value: unknown,
+): Promise<ValidationResult<T>> {
+  if (typeof validator === "function") {
+    try {
+      return { success: true, value: validator(value) };
+    } catch (err) {
+      return {
+        success: false,
+        error: new ValidationError(
+          err instanceof Error ? err.message : String(err),
+          err,
+        ),
+      };
+    }
+  }
+
+  if ("~standard" in validator) {
+    const result = await validator["~standard"].validate(value);
+    if (!result.issues) {
+      return { success: true, value: result.value };
+    }
+    const message = result.issues
+      .map((issue) => {
+        const path = issue.path
+          ?.map((segment) =>
+            typeof segment === "object" ? String(segment.key) : String(segment),
+          )
+          .join(".");
+        return path ? `${path}: ${issue.message}` : issue.message;
+      })
+      .join("; ");
+    return {
+      success: false,
+      error: new ValidationError(message, result.issues),
+    };
+  }
+
+  const result = validator.safeParse(value);
+  if (result.success) {
+    return { success: true, value: result.data };
+  }
+  return {
+    success: false,
+    error: new ValidationError(
+      result.error instanceof Error ? result.error.message : "Validation failed",
+      result.error,
+    ),
+  };
+}
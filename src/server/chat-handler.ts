@@ -0,0 +1,461 @@
+import { getErrorStatus, toStreamErrorPayload } from "./stream-error";
+import {
+  resumeNodeResponse,
+  resumeWebResponse,
+  streamToNodeResponse,
+  streamToWebResponse,
+  type DedalusRunnerResult,
+  type NodeResponse,
+  type StreamResponseOptions,
+} from "./stream-response";
+import type { ResumableStreamStore } from "./stream-store";
+
+/**
+ * Minimal Chat Completions message shape.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type ChatMessage = Record<string, any>;
+
+/**
+ * Body sent by `useChat`: the chat id, the messages and any `body`
+ * additions from the transport or request options.
+ */
+export interface ChatRequestBody {
+  id?: string;
+  messages: ChatMessage[];
+  /** Model requested by the client, honored only if in `allowedModels` */
+  model?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Params passed to `runner.run` for each request.
+ */
+export interface ChatRunParams {
+  model: string;
+  messages: ChatMessage[];
+  stream: true;
+  [key: string]: unknown;
+}
+
+/**
+ * Anything that runs a model and returns a stream, such as a `DedalusRunner`.
+ * Called with `ChatRunParams`; typed loosely so runners with stricter
+ * message types fit.
+ */
+export interface ChatRunner {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  run(params: any): Promise<unknown>;
+}
+
+export interface ChatHandlerOptions
+  extends Omit<StreamResponseOptions, "resumable"> {
+  /** Runs the model for each request, usually a `DedalusRunner` */
+  runner: ChatRunner;
+
+  /** Model used unless the client picks one from `allowedModels` */
+  model: string;
+
+  /**
+   * Models the client may request with `model` in the body. Requests for
+   * any other model get a 400. Without this list, `model` in the body is
+   * ignored.
+   */
+  allowedModels?: string[];
+
+  /**
+   * Ask the model for token usage in the final chunk, so `useChat` can
+   * report it in `onFinish` and `lastUsage`. Adds
+   * `stream_options: { include_usage: true }` to the params. Defaults to
+   * false.
+   */
+  includeUsage?: boolean;
+
+  /**
+   * Change the params before the model runs, e.g. to add a system message,
+   * tools or temperature. Receives the parsed request body; other body
+   * fields are not passed to the model unless added here.
+   */
+  transformRequest?: (
+    params: ChatRunParams,
+    body: ChatRequestBody,
+  ) => ChatRunParams | Promise<ChatRunParams>;
+
+  /**
+   * Buffer each response in `store` under the chat `id` from the request
+   * body, so a client that disconnects can resume it. Requests with a
+   * `Last-Event-ID` header replay the buffered stream instead of running
+   * the model again. Requests without an `id` get a 400.
+   */
+  resumable?: { store: ResumableStreamStore };
+}
+
+/**
+ * Minimal subset of Node's `IncomingMessage` (or an Express request) used
+ * by `createNodeChatHandler`.
+ */
+export interface NodeRequest extends AsyncIterable<unknown> {
+  method?: string;
+  headers?: Record<string, string | string[] | undefined>;
+  /** Body already parsed by middleware such as `express.json()` */
+  body?: unknown;
+}
+
+/**
+ * A request the handler can't serve, sent as `{ error }` JSON. Model
+ * failures also carry the `code` and `retryable` flag of a
+ * `StreamErrorPayload`.
+ */
+interface ChatErrorResponse {
+  status: number;
+  error: string;
+  code?: string;
+  retryable?: boolean;
+  headers?: Record<string, string>;
+}
+
+const METHOD_NOT_ALLOWED: ChatErrorResponse = {
+  status: 405,
+  error: "Method not allowed",
+  headers: { Allow: "POST" },
+};
+
+const INVALID_JSON: ChatErrorResponse = {
+  status: 400,
+  error: "Request body must be valid JSON",
+};
+
+/**
+ * HTTP status for each `StreamErrorPayload` code when the model fails to
+ * start. Client errors from the API keep their own status.
+ */
+const ERROR_CODE_STATUS: Record<string, number> = {
+  rate_limited: 429,
+  unauthorized: 401,
+  bad_request: 400,
+  upstream_error: 502,
+  connection_error: 503,
+  internal_error: 500,
+};
+
+/**
+ * Get the `Retry-After` header of an API error, if it has one.
+ */
+function getRetryAfter(error: unknown): string | undefined {
+  if (error == null || typeof error !== "object" || !("headers" in error)) {
+    return undefined;
+  }
+  const { headers } = error;
+  if (typeof Headers !== "undefined" && headers instanceof Headers) {
+    return headers.get("Retry-After") ?? undefined;
+  }
+  if (headers != null && typeof headers === "object") {
+    for (const [name, value] of Object.entries(headers)) {
+      if (name.toLowerCase() === "retry-after" && typeof value === "string") {
+        return value;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Describe a model failure as an error response, with the status of the
+ * error and `Retry-After` forwarded for rate limits.
+ */
+function toModelErrorResponse(
+  error: unknown,
+  options: ChatHandlerOptions,
+): ChatErrorResponse {
+  options.onError?.(error);
+  const { code, message, retryable } = toStreamErrorPayload(
+    error,
+    options.redactErrors,
+  );
+  const errorStatus = getErrorStatus(error);
+  const status =
+    errorStatus !== undefined && errorStatus >= 400 && errorStatus < 500
+      ? errorStatus
+      : (ERROR_CODE_STATUS[code] ?? 500);
+  const retryAfter = status === 429 ? getRetryAfter(error) : undefined;
+  return {
+    status,
+    error: message,
+    code,
+    retryable,
+    headers: retryAfter ? { "Retry-After": retryAfter } : undefined,
+  };
+}
+
+/**
+ * Check that the body is a chat request. Returns the body, or the error to
+ * respond with.
+ */
+function parseChatBody(
+  body: unknown,
+  options: ChatHandlerOptions,
+): { body: ChatRequestBody } | ChatErrorResponse {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { status: 400, error: "Request body must be a JSON object" };
+  }
+  const chatBody = body as ChatRequestBody;
+  if (!Array.isArray(chatBody.messages)) {
+    return { status: 400, error: "`messages` must be an array" };
+  }
+  if (options.resumable && (typeof chatBody.id !== "string" || !chatBody.id)) {
+    return { status: 400, error: "`id` is required for resumable streams" };
+  }
+  return { body: chatBody };
+}
+
+/**
+ * Run the model for a parsed body. Returns the stream, or the error to
+ * respond with.
+ */
+async function runChat(
+  chatBody: ChatRequestBody,
+  options: ChatHandlerOptions,
+): Promise<{ stream: DedalusRunnerResult } | ChatErrorResponse> {
+  let model = options.model;
+  if (options.allowedModels && chatBody.model !== undefined) {
+    if (!options.allowedModels.includes(chatBody.model)) {
+      return {
+        status: 400,
+        error: `Model "${String(chatBody.model)}" is not allowed`,
+      };
+    }
+    model = chatBody.model;
+  }
+
+  try {
+    let params: ChatRunParams = {
+      model,
+      messages: chatBody.messages,
+      stream: true,
+      ...(options.includeUsage && {
+        stream_options: { include_usage: true },
+      }),
+    };
+    if (options.transformRequest) {
+      params = await options.transformRequest(params, chatBody);
+    }
+    const stream = await options.runner.run(params);
+    return { stream: stream as DedalusRunnerResult };
+  } catch (error) {
+    return toModelErrorResponse(error, options);
+  }
+}
+
+/**
+ * Options for streaming or resuming the response to a chat request.
+ */
+function toStreamOptions(
+  options: ChatHandlerOptions,
+  chatBody: ChatRequestBody,
+): StreamResponseOptions {
+  const { headers, redactErrors, onError, resumable } = options;
+  return {
+    headers,
+    redactErrors,
+    onError,
+    resumable: resumable && { id: chatBody.id!, store: resumable.store },
+  };
+}
+
+function isErrorResponse<T extends { stream: unknown } | { body: unknown }>(
+  result: T | ChatErrorResponse,
+): result is ChatErrorResponse {
+  return "error" in result;
+}
+
+function toErrorBody({ error, code, retryable }: ChatErrorResponse): string {
+  return JSON.stringify({ error, code, retryable });
+}
+
+function toWebErrorResponse(response: ChatErrorResponse): Response {
+  return new Response(toErrorBody(response), {
+    status: response.status,
+    headers: { "Content-Type": "application/json", ...response.headers },
+  });
+}
+
+function writeNodeErrorResponse(
+  res: NodeResponse,
+  response: ChatErrorResponse,
+): void {
+  res.writeHead(response.status, {
+    "Content-Type": "application/json",
+    ...response.headers,
+  });
+  res.write(toErrorBody(response));
+  res.end();
+}
+
+/**
+ * Read a Node request body, unless middleware already parsed it.
+ */
+async function readNodeBody(req: NodeRequest): Promise<unknown> {
+  if (req.body !== undefined) {
+    return typeof req.body === "string" ? JSON.parse(req.body) : req.body;
+  }
+
+  const decoder = new TextDecoder();
+  let text = "";
+  for await (const chunk of req) {
+    text +=
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk as Uint8Array, { stream: true });
+  }
+  text += decoder.decode();
+  return JSON.parse(text);
+}
+
+/**
+ * Create a chat API route for environments that use the Web Fetch API
+ * (Next.js App Router, Cloudflare Workers, Deno, Bun).
+ *
+ * The handler parses the `useChat` request body, runs the model with
+ * `stream: true` and streams the result with `streamToWebResponse`.
+ * Requests it can't serve get a JSON `{ error }` body: 405 for methods
+ * other than POST, and 400 for invalid bodies or models outside
+ * `allowedModels`. When the model fails to start, the body also has the
+ * `code` and `retryable` flag of a `StreamErrorPayload`, and the status
+ * follows the error: 429 with `Retry-After` for rate limits, the API's
+ * status for other client errors, 502 or 503 for upstream and connection
+ * failures, and 500 otherwise. Errors after streaming has started are sent
+ * as an `event: error` frame.
+ *
+ * With `resumable`, responses are buffered under the chat id and requests
+ * with `Last-Event-ID` are resumed from the buffer.
+ *
+ * For Express or other Node.js frameworks, use `createNodeChatHandler`.
+ *
+ * @example Next.js App Router
+ * ```ts
+ * import Dedalus, { DedalusRunner } from 'dedalus-labs'
+ * import { createChatHandler } from 'dedalus-react/server'
+ *
+ * const runner = new DedalusRunner(new Dedalus())
+ *
+ * export const POST = createChatHandler({
+ *   runner,
+ *   model: 'openai/gpt-4o-mini',
+ *   allowedModels: ['openai/gpt-4o-mini', 'openai/gpt-4o'],
+ *   includeUsage: true,
+ *   transformRequest: (params) => ({
+ *     ...params,
+ *     messages: [{ role: 'system', content: 'Be brief.' }, ...params.messages],
+ *   }),
+ * })
+ * ```
+ */
+export function createChatHandler(
+  options: ChatHandlerOptions,
+): (request: Request) => Promise<Response> {
+  return async (request) => {
+    if (request.method !== "POST") {
+      return toWebErrorResponse(METHOD_NOT_ALLOWED);
+    }
+
+    let json: unknown;
+    try {
+      json = await request.json();
+    } catch {
+      return toWebErrorResponse(INVALID_JSON);
+    }
+
+    const parsed = parseChatBody(json, options);
+    if (isErrorResponse(parsed)) return toWebErrorResponse(parsed);
+    const streamOptions = toStreamOptions(options, parsed.body);
+
+    const lastEventId = request.headers.get("Last-Event-ID");
+    if (streamOptions.resumable && lastEventId) {
+      return resumeWebResponse({
+        ...streamOptions.resumable,
+        ...streamOptions,
+        lastEventId,
+      });
+    }
+
+    const result = await runChat(parsed.body, options);
+    if (isErrorResponse(result)) return toWebErrorResponse(result);
+
+    try {
+      return streamToWebResponse(result.stream, streamOptions);
+    } catch (error) {
+      // The runner returned something other than a stream
+      return toWebErrorResponse(toModelErrorResponse(error, options));
+    }
+  };
+}
+
+/**
+ * Create a chat route handler for Node.js HTTP frameworks (Express,
+ * Fastify, the built-in `http` module). Responds like `createChatHandler`.
+ *
+ * Uses `req.body` when middleware such as `express.json()` has parsed it,
+ * and otherwise reads the body from the request stream.
+ *
+ * @example Express
+ * ```ts
+ * import { createNodeChatHandler } from 'dedalus-react/server'
+ *
+ * app.use('/api/chat', createNodeChatHandler({
+ *   runner,
+ *   model: 'openai/gpt-4o-mini',
+ * }))
+ * ```
+ */
+export function createNodeChatHandler(
+  options: ChatHandlerOptions,
+): (req: NodeRequest, res: NodeResponse) => Promise<void> {
+  return async (req, res) => {
+    if (req.method !== "POST") {
+      writeNodeErrorResponse(res, METHOD_NOT_ALLOWED);
+      return;
+    }
+
+    let json: unknown;
+    try {
+      json = await readNodeBody(req);
+    } catch {
+      writeNodeErrorResponse(res, INVALID_JSON);
+      return;
+    }
+
+    const parsed = parseChatBody(json, options);
+    if (isErrorResponse(parsed)) {
+      writeNodeErrorResponse(res, parsed);
+      return;
+    }
+    const streamOptions = toStreamOptions(options, parsed.body);
+
+    const lastEventId = req.headers?.["last-event-id"];
+    if (
+      streamOptions.resumable &&
+      typeof lastEventId === "string" &&
+      lastEventId
+    ) {
+      await resumeNodeResponse(res, {
+        ...streamOptions.resumable,
+        ...streamOptions,
+        lastEventId,
+      });
+      return;
+    }
+
+    const result = await runChat(parsed.body, options);
+    if (isErrorResponse(result)) {
+      writeNodeErrorResponse(res, result);
+      return;
+    }
+
+    try {
+      await streamToNodeResponse(result.stream, res, streamOptions);
+    } catch (error) {
+      // The runner returned something other than a stream
+      writeNodeErrorResponse(res, toModelErrorResponse(error, options));
+    }
+  };
+}
@@ -1,2 +1,46 @@
-export { streamToWebResponse, streamToNodeResponse } from "./stream-response";
-export type { StreamResponseOptions } from "./stream-response";
+export {
+  streamToWebResponse,
+  streamToNodeResponse,
+  resumeWebResponse,
+  resumeNodeResponse,
+  jsonToResponse,
+  jsonToNodeResponse,
+} from "./stream-response";
+export type {
+  StreamResponseOptions,
+  JsonResponseOptions,
+  ResumableStreamOptions,
+  ResumeStreamOptions,
+} from "./stream-response";
+export { createChatHandler, createNodeChatHandler } from "./chat-handler";
+export type {
+  ChatHandlerOptions,
+  ChatRequestBody,
+  ChatRunParams,
+  ChatRunner,
+  NodeRequest,
+} from "./chat-handler";
+export { InMemoryStreamStore } from "./stream-store";
+export type {
+  ResumableStreamStore,
+  BufferedStreamEvent,
+  InMemoryStreamStoreOptions,
+} from "./stream-store";
+export { defineTool, runTools, toToolParams } from "./tools";
+export type {
+  ToolDefinition,
+  ToolExecutionContext,
+  ToolParam,
+  ToolResultMessage,
+  RunToolsOptions,
+} from "./tools";
+export { toObjectParams, toResponseFormat } from "./object";
+export type {
+  ObjectParams,
+  ObjectParamsOptions,
+  ObjectResponseFormat,
+} from "./object";
+export { createServerSentEvent } from "./server-sent-event";
+export type { ServerSentEvent } from "./server-sent-event";
+export { toStreamErrorPayload } from "./stream-error";
+export type { StreamErrorPayload, StreamErrorOptions } from "./stream-error";
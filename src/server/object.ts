@@ -0,0 +1,121 @@
+/**
+ * Minimal Chat Completions message shape.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type ChatMessage = Record<string, any>;
+
+/**
+ * Structured output format for the Chat Completions `response_format` param.
+ */
+export type ObjectResponseFormat =
+  | { type: "json_object" }
+  | {
+      type: "json_schema";
+      json_schema: {
+        name: string;
+        description?: string;
+        schema?: Record<string, unknown>;
+        strict?: boolean | null;
+      };
+    };
+
+export interface ObjectParamsOptions {
+  /**
+   * Format to use instead of the one sent by the client. Set this when the
+   * server decides the schema, so clients can't request a different one.
+   */
+  responseFormat?: ObjectResponseFormat;
+}
+
+/**
+ * Model params for a structured output request.
+ */
+export interface ObjectParams {
+  messages: ChatMessage[];
+  response_format: ObjectResponseFormat;
+}
+
+/**
+ * Check that a client-sent `response_format` asks for JSON.
+ */
+function isObjectResponseFormat(value: unknown): value is ObjectResponseFormat {
+  if (typeof value !== "object" || value === null) return false;
+  const format = value as { type?: unknown; json_schema?: { name?: unknown } };
+  if (format.type === "json_object") return true;
+  return (
+    format.type === "json_schema" &&
+    typeof format.json_schema?.name === "string"
+  );
+}
+
+/**
+ * Build a JSON Schema `response_format`.
+ *
+ * @example
+ * ```ts
+ * const recipeFormat = toResponseFormat('recipe', {
+ *   type: 'object',
+ *   properties: {
+ *     title: { type: 'string' },
+ *     steps: { type: 'array', items: { type: 'string' } },
+ *   },
+ *   required: ['title', 'steps'],
+ *   additionalProperties: false,
+ * })
+ * ```
+ */
+export function toResponseFormat(
+  name: string,
+  schema: Record<string, unknown>,
+  options: { description?: string; strict?: boolean } = {},
+): ObjectResponseFormat {
+  return {
+    type: "json_schema",
+    json_schema: {
+      name,
+      ...(options.description !== undefined && {
+        description: options.description,
+      }),
+      schema,
+      strict: options.strict ?? true,
+    },
+  };
+}
+
+/**
+ * Get the model params for a `useObject` request body.
+ *
+ * Passes the `response_format` sent by the client through to the model,
+ * unless `options.responseFormat` overrides it. Falls back to
+ * `{ type: "json_object" }` when neither asks for JSON.
+ *
+ * @example Next.js App Router
+ * ```ts
+ * import { toObjectParams, streamToWebResponse } from 'dedalus-react/server'
+ *
+ * export async function POST(req: Request) {
+ *   const stream = await client.chat.completions.create({
+ *     model: 'openai/gpt-4o-mini',
+ *     ...toObjectParams(await req.json()),
+ *     stream: true,
+ *   })
+ *
+ *   return streamToWebResponse(stream)
+ * }
+ * ```
+ */
+export function toObjectParams(
+  body: { messages: ChatMessage[]; response_format?: unknown },
+  options: ObjectParamsOptions = {},
+): ObjectParams {
+  const responseFormat =
+    options.responseFormat ??
+    (isObjectResponseFormat(body.response_format)
+      ? body.response_format
+      : { type: "json_object" as const });
+
+  return {
+    messages: body.messages,
+    response_format: responseFormat,
+  };
+}
@@ -0,0 +1,29 @@
+const SERVER_SENT_EVENT = Symbol("dedalus-react.server-sent-event");
+
+/**
+ * A named SSE event. The stream helpers write it as an `event:` line followed
+ * by its JSON-encoded data, instead of a plain `data:` chunk.
+ */
+export interface ServerSentEvent<T = unknown> {
+  readonly [SERVER_SENT_EVENT]: true;
+  event: string;
+  data: T;
+}
+
+/**
+ * Create a named event to yield alongside model chunks.
+ */
+export function createServerSentEvent<T>(
+  event: string,
+  data: T,
+): ServerSentEvent<T> {
+  return { [SERVER_SENT_EVENT]: true, event, data };
+}
+
+export function isServerSentEvent(value: unknown): value is ServerSentEvent {
+  return (
+    value != null &&
+    typeof value === "object" &&
+    SERVER_SENT_EVENT in value
+  );
+}
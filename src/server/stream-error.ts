@@ -0,0 +1,83 @@
+/**
+ * Payload of the `event: error` frame sent when a stream fails after the
+ * response has started.
+ */
+export interface StreamErrorPayload {
+  /**
+   * Machine-readable error code:
+   * `rate_limited`, `upstream_error`, `connection_error`, `bad_request`,
+   * `unauthorized` or `internal_error`
+   */
+  code: string;
+  /** Human-readable description (generic when errors are redacted) */
+  message: string;
+  /** Whether retrying the same request may succeed */
+  retryable: boolean;
+}
+
+export interface StreamErrorOptions {
+  /**
+   * Replace error messages with a generic message, so internal details
+   * (upstream responses, stack information in messages) never reach the
+   * client. The error code and retryable flag are still sent.
+   * Defaults to false.
+   */
+  redactErrors?: boolean;
+
+  /**
+   * Called with the original error when the stream fails, e.g. for logging.
+   */
+  onError?: (error: unknown) => void;
+}
+
+const REDACTED_MESSAGE = "An error occurred while generating the response";
+
+/**
+ * Get the HTTP `status` of an error, such as a Dedalus API error.
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  return error != null &&
+    typeof error === "object" &&
+    "status" in error &&
+    typeof error.status === "number"
+    ? error.status
+    : undefined;
+}
+
+/**
+ * Describe an error thrown by the stream as an error frame payload.
+ * Errors with an HTTP `status` (such as Dedalus API errors) are classified
+ * by status code.
+ */
+export function toStreamErrorPayload(
+  error: unknown,
+  redact = false,
+): StreamErrorPayload {
+  const status = getErrorStatus(error);
+  const name = error instanceof Error ? error.name : "";
+
+  let code = "internal_error";
+  let retryable = false;
+  if (status === 429) {
+    code = "rate_limited";
+    retryable = true;
+  } else if (status === 401 || status === 403) {
+    code = "unauthorized";
+  } else if (status !== undefined && status >= 500) {
+    code = "upstream_error";
+    retryable = true;
+  } else if (status !== undefined && status >= 400) {
+    code = "bad_request";
+  } else if (/connection|timeout/i.test(name)) {
+    code = "connection_error";
+    retryable = true;
+  }
+
+  const message = redact
+    ? REDACTED_MESSAGE
+    : error instanceof Error
+      ? error.message
+      : String(error);
+
+  return { code, message, retryable };
+}
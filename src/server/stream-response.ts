@@ -1,21 +1,273 @@
+import { isServerSentEvent } from "./server-sent-event";
+import { toStreamErrorPayload, type StreamErrorOptions } from "./stream-error";
+import type { BufferedStreamEvent, ResumableStreamStore } from "./stream-store";
+
 // Generic stream chunk - accepts any object with SSE-compatible structure
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type GenericStreamChunk = Record<string, any>;
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-type DedalusRunnerResult = AsyncIterable<GenericStreamChunk> | Record<string, any>;
+export type DedalusRunnerResult = AsyncIterable<GenericStreamChunk> | Record<string, any>;
 
-export interface StreamResponseOptions {
+export interface StreamResponseOptions extends StreamErrorOptions {
   /**
    * Additional headers to include in the response
    */
   headers?: Record<string, string>;
+
+  /**
+   * Buffer the stream so a disconnected client can resume it.
+   *
+   * Events are sent with SSE `id:` fields and kept in `store` under `id`
+   * (usually the chat id). The source stream keeps being consumed even if
+   * the client disconnects, so a reconnecting client that sends
+   * `Last-Event-ID` can be served with `resumeWebResponse` or
+   * `resumeNodeResponse`.
+   */
+  resumable?: ResumableStreamOptions;
 }
 
+export interface ResumableStreamOptions {
+  /** Key for the buffered stream, usually the chat id */
+  id: string;
+  /** Where buffered events are kept */
+  store: ResumableStreamStore;
+}
+
+export interface ResumeStreamOptions
+  extends ResumableStreamOptions,
+    StreamErrorOptions {
+  /**
+   * The `Last-Event-ID` header sent by the reconnecting client.
+   * Events after this id are replayed before the live stream continues.
+   */
+  lastEventId?: string | null;
+
+  /**
+   * Additional headers to include in the response
+   */
+  headers?: Record<string, string>;
+}
+
+export interface JsonResponseOptions {
+  /**
+   * Additional headers to include in the response
+   */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Minimal subset of Node's `ServerResponse` used by the Node helpers.
+ */
+export interface NodeResponse {
+  writeHead: (status: number, headers: Record<string, string>) => void;
+  write: (chunk: string) => void;
+  end: () => void;
+}
+
+const SSE_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache",
+  Connection: "keep-alive",
+};
+
 function isAsyncIterable(value: unknown): value is AsyncIterable<GenericStreamChunk> {
   return value != null && typeof value === "object" && Symbol.asyncIterator in value;
 }
 
+/**
+ * Get the ChatCompletion to send for a non-streaming result. A `RunResult`
+ * from `DedalusRunner.run` becomes a completion with one choice holding its
+ * `finalOutput`. Throws for anything else, so a client never receives a
+ * response without choices.
+ */
+function toChatCompletion(
+  result: GenericStreamChunk,
+  helperName: string,
+): GenericStreamChunk {
+  if (Array.isArray(result.choices)) return result;
+
+  if (typeof result.finalOutput === "string") {
+    const modelsUsed: unknown[] = Array.isArray(result.modelsUsed)
+      ? result.modelsUsed
+      : [];
+    const model = modelsUsed[modelsUsed.length - 1];
+    return {
+      object: "chat.completion",
+      created: Math.floor(Date.now() / 1000),
+      model: typeof model === "string" ? model : "",
+      choices: [
+        {
+          index: 0,
+          message: { role: "assistant", content: result.finalOutput },
+          finish_reason: "stop",
+        },
+      ],
+    };
+  }
+
+  throw new Error(
+    `${helperName} requires a ChatCompletion or the RunResult of runner.run()`,
+  );
+}
+
+/**
+ * Convert a stream item to an SSE event. Named events created with
+ * `createServerSentEvent` keep their name; everything else is a data chunk.
+ */
+function toStreamEvent(
+  chunk: GenericStreamChunk,
+): Omit<BufferedStreamEvent, "id"> {
+  if (isServerSentEvent(chunk)) {
+    return { event: chunk.event, data: JSON.stringify(chunk.data) };
+  }
+  return { data: JSON.stringify(chunk) };
+}
+
+/**
+ * Format an SSE frame with optional `id:` and `event:` fields.
+ */
+function formatFrame(event: Omit<BufferedStreamEvent, "id"> & { id?: string }): string {
+  let frame = "";
+  if (event.id !== undefined) frame += `id: ${event.id}\n`;
+  if (event.event !== undefined) frame += `event: ${event.event}\n`;
+  return `${frame}data: ${event.data}\n\n`;
+}
+
+/**
+ * Consume the source stream into the store. Runs independently of any
+ * client connection so the buffer stays complete for resumption. Stops
+ * reading the source once a newer response replaces the buffer.
+ */
+async function bufferStream(
+  stream: AsyncIterable<GenericStreamChunk>,
+  { id, store }: ResumableStreamOptions,
+  generation: string,
+): Promise<void> {
+  try {
+    for await (const chunk of stream) {
+      const eventId = await store.append(id, generation, toStreamEvent(chunk));
+      // Leaving the loop closes the source stream
+      if (eventId === undefined) return;
+    }
+    await store.complete(id, generation);
+  } catch (error) {
+    await store.complete(id, generation, error);
+  }
+}
+
+/**
+ * Start buffering a stream and return an iterable of SSE frames read
+ * back from the store. Store failures while buffering go to `onError`.
+ */
+async function* startResumableStream(
+  stream: AsyncIterable<GenericStreamChunk>,
+  { id, store }: ResumableStreamOptions,
+  onError: ((error: unknown) => void) | undefined,
+): AsyncIterable<string> {
+  const generation = await store.create(id);
+  bufferStream(stream, { id, store }, generation).catch((error) => {
+    onError?.(error);
+  });
+
+  const events = await store.read(id);
+  if (!events) {
+    throw new Error(`No resumable stream found for id "${id}"`);
+  }
+  yield* formatBufferedEvents(events);
+}
+
+/**
+ * Format buffered events as SSE frames carrying their event ids.
+ */
+async function* formatBufferedEvents(
+  events: AsyncIterable<BufferedStreamEvent>,
+): AsyncIterable<string> {
+  for await (const event of events) {
+    yield formatFrame(event);
+  }
+}
+
+/**
+ * Format a plain (non-resumable) stream as SSE frames.
+ */
+async function* formatStream(
+  stream: AsyncIterable<GenericStreamChunk>,
+): AsyncIterable<string> {
+  for await (const chunk of stream) {
+    yield formatFrame(toStreamEvent(chunk));
+  }
+}
+
+/**
+ * Format the `event: error` frame for a failed stream and report the error.
+ */
+function formatErrorFrame(error: unknown, options: StreamErrorOptions): string {
+  options.onError?.(error);
+  return formatFrame({
+    event: "error",
+    data: JSON.stringify(toStreamErrorPayload(error, options.redactErrors)),
+  });
+}
+
+function framesToWebResponse(
+  frames: AsyncIterable<string>,
+  options: StreamErrorOptions & { headers?: Record<string, string> },
+): Response {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  const readableStream = new ReadableStream({
+    async start(controller) {
+      try {
+        for await (const frame of frames) {
+          if (cancelled) return;
+          controller.enqueue(encoder.encode(frame));
+        }
+        controller.enqueue(encoder.encode(`data: [DONE]\n\n`));
+      } catch (error) {
+        if (cancelled) return;
+        // Tell the client why the stream ended instead of truncating it
+        controller.enqueue(encoder.encode(formatErrorFrame(error, options)));
+      }
+      controller.close();
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(readableStream, {
+    headers: {
+      ...SSE_HEADERS,
+      ...options.headers,
+    },
+  });
+}
+
+async function framesToNodeResponse(
+  frames: AsyncIterable<string>,
+  res: NodeResponse,
+  options: StreamErrorOptions & { headers?: Record<string, string> },
+): Promise<void> {
+  res.writeHead(200, {
+    ...SSE_HEADERS,
+    ...options.headers,
+  });
+
+  try {
+    for await (const frame of frames) {
+      res.write(frame);
+    }
+    res.write(`data: [DONE]\n\n`);
+  } catch (error) {
+    // Headers are already sent, so report the error in the stream
+    res.write(formatErrorFrame(error, options));
+  } finally {
+    res.end();
+  }
+}
+
 /**
  * Stream a Dedalus response to a Web standard Response.
  *
@@ -27,6 +279,9 @@ function isAsyncIterable(value: unknown): value is AsyncIterable<GenericStreamCh
  *
  * For Node.js frameworks like Express or Fastify, use `streamToNodeResponse` instead.
  *
+ * If the stream throws after the response has started, an `event: error`
+ * frame with a `StreamErrorPayload` is sent before the stream closes.
+ *
  * @example Next.js App Router
  * ```ts
  * import { streamToWebResponse } from 'dedalus-react/server'
@@ -54,37 +309,15 @@ export function streamToWebResponse(
 ): Response {
   if (!isAsyncIterable(result)) {
     throw new Error(
-      "streamToWebResponse requires a streaming result. Make sure to pass stream: true to runner.run()",
+      "streamToWebResponse requires a streaming result. Make sure to pass stream: true to runner.run(), or use jsonToResponse",
     );
   }
 
-  const stream = result;
-  const encoder = new TextEncoder();
-
-  const readableStream = new ReadableStream({
-    async start(controller) {
-      try {
-        for await (const chunk of stream) {
-          controller.enqueue(
-            encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`),
-          );
-        }
-        controller.enqueue(encoder.encode(`data: [DONE]\n\n`));
-        controller.close();
-      } catch (error) {
-        controller.error(error);
-      }
-    },
-  });
+  const frames = options.resumable
+    ? startResumableStream(result, options.resumable, options.onError)
+    : formatStream(result);
 
-  return new Response(readableStream, {
-    headers: {
-      "Content-Type": "text/event-stream",
-      "Cache-Control": "no-cache",
-      Connection: "keep-alive",
-      ...options.headers,
-    },
-  });
+  return framesToWebResponse(frames, options);
 }
 
 /**
@@ -97,6 +330,10 @@ export function streamToWebResponse(
  *
  * For Next.js App Router, Cloudflare Workers, Deno, or Bun, use `streamToWebResponse` instead.
  *
+ * If the stream throws after the response has started, an `event: error`
+ * frame with a `StreamErrorPayload` is sent and the response ends; the
+ * error is not rethrown, so use `onError` to log it.
+ *
  * @example Express
  * ```ts
  * import { streamToNodeResponse } from 'dedalus-react/server'
@@ -120,34 +357,183 @@ export function streamToWebResponse(
  */
 export async function streamToNodeResponse(
   result: DedalusRunnerResult,
-  res: {
-    writeHead: (status: number, headers: Record<string, string>) => void;
-    write: (chunk: string) => void;
-    end: () => void;
-  },
+  res: NodeResponse,
   options: StreamResponseOptions = {},
 ): Promise<void> {
   if (!isAsyncIterable(result)) {
     throw new Error(
-      "streamToNodeResponse requires a streaming result. Make sure to pass stream: true to runner.run()",
+      "streamToNodeResponse requires a streaming result. Make sure to pass stream: true to runner.run(), or use jsonToNodeResponse",
     );
   }
 
-  const stream = result;
+  const frames = options.resumable
+    ? startResumableStream(result, options.resumable, options.onError)
+    : formatStream(result);
 
-  res.writeHead(200, {
-    "Content-Type": "text/event-stream",
-    "Cache-Control": "no-cache",
-    Connection: "keep-alive",
-    ...options.headers,
-  });
+  await framesToNodeResponse(frames, res, options);
+}
 
-  try {
-    for await (const chunk of stream) {
-      res.write(`data: ${JSON.stringify(chunk)}\n\n`);
-    }
-    res.write(`data: [DONE]\n\n`);
-  } finally {
+/**
+ * Resume a buffered stream as a Web standard Response.
+ *
+ * Call this instead of running the model again when the request carries a
+ * `Last-Event-ID` header. Responds with 404 if the stream is no longer
+ * buffered.
+ *
+ * @example Next.js App Router
+ * ```ts
+ * import {
+ *   streamToWebResponse,
+ *   resumeWebResponse,
+ *   InMemoryStreamStore,
+ * } from 'dedalus-react/server'
+ *
+ * const store = new InMemoryStreamStore()
+ *
+ * export async function POST(req: Request) {
+ *   const { id, messages } = await req.json()
+ *
+ *   const lastEventId = req.headers.get('Last-Event-ID')
+ *   if (lastEventId) {
+ *     return resumeWebResponse({ id, store, lastEventId })
+ *   }
+ *
+ *   const stream = await runner.run({
+ *     model: 'openai/gpt-4o-mini',
+ *     messages,
+ *     stream: true,
+ *   })
+ *
+ *   return streamToWebResponse(stream, { resumable: { id, store } })
+ * }
+ * ```
+ */
+export async function resumeWebResponse(
+  options: ResumeStreamOptions,
+): Promise<Response> {
+  const events = await options.store.read(
+    options.id,
+    options.lastEventId ?? undefined,
+  );
+  if (!events) {
+    return new Response(
+      JSON.stringify({ error: "Stream not found" }),
+      { status: 404, headers: { "Content-Type": "application/json" } },
+    );
+  }
+
+  return framesToWebResponse(formatBufferedEvents(events), options);
+}
+
+/**
+ * Resume a buffered stream on a Node.js response object.
+ *
+ * Call this instead of running the model again when the request carries a
+ * `Last-Event-ID` header. Responds with 404 if the stream is no longer
+ * buffered.
+ *
+ * @example Express
+ * ```ts
+ * app.post('/api/chat', async (req, res) => {
+ *   const { id, messages } = req.body
+ *
+ *   const lastEventId = req.get('Last-Event-ID')
+ *   if (lastEventId) {
+ *     return resumeNodeResponse(res, { id, store, lastEventId })
+ *   }
+ *
+ *   const stream = await runner.run({ model, messages, stream: true })
+ *   await streamToNodeResponse(stream, res, { resumable: { id, store } })
+ * })
+ * ```
+ */
+export async function resumeNodeResponse(
+  res: NodeResponse,
+  options: ResumeStreamOptions,
+): Promise<void> {
+  const events = await options.store.read(
+    options.id,
+    options.lastEventId ?? undefined,
+  );
+  if (!events) {
+    res.writeHead(404, { "Content-Type": "application/json" });
+    res.write(JSON.stringify({ error: "Stream not found" }));
     res.end();
+    return;
   }
+
+  await framesToNodeResponse(formatBufferedEvents(events), res, options);
+}
+
+/**
+ * Send a non-streaming Dedalus response as a Web standard Response.
+ * `useChat` reads `application/json` responses and appends the assistant
+ * message, including any tool calls.
+ *
+ * Accepts a ChatCompletion, or the `RunResult` of `runner.run()` without
+ * `stream: true`, which is sent as a ChatCompletion whose message content is
+ * `finalOutput`. Throws for anything else.
+ *
+ * Use this for models or proxies that don't support streaming.
+ *
+ * @example Next.js App Router
+ * ```ts
+ * import { jsonToResponse } from 'dedalus-react/server'
+ *
+ * export async function POST(req: Request) {
+ *   const { messages } = await req.json()
+ *
+ *   // Without stream: true, the runner returns a RunResult
+ *   const result = await runner.run({
+ *     model: 'openai/gpt-4o-mini',
+ *     messages,
+ *   })
+ *
+ *   return jsonToResponse(result)
+ * }
+ * ```
+ */
+export function jsonToResponse(
+  result: DedalusRunnerResult,
+  options: JsonResponseOptions = {},
+): Response {
+  if (isAsyncIterable(result)) {
+    throw new Error(
+      "jsonToResponse requires a non-streaming result. Use streamToWebResponse for stream: true",
+    );
+  }
+
+  const body = JSON.stringify(toChatCompletion(result, "jsonToResponse"));
+  return new Response(body, {
+    headers: { "Content-Type": "application/json", ...options.headers },
+  });
+}
+
+/**
+ * Send a non-streaming Dedalus response (a ChatCompletion or `RunResult`)
+ * on a Node.js response object. See `jsonToResponse`.
+ *
+ * @example Express
+ * ```ts
+ * app.post('/api/chat', async (req, res) => {
+ *   const result = await runner.run({ model, messages: req.body.messages })
+ *   jsonToNodeResponse(result, res)
+ * })
+ * ```
+ */
+export function jsonToNodeResponse(
+  result: DedalusRunnerResult,
+  res: NodeResponse,
+  options: JsonResponseOptions = {},
+): void {
+  if (isAsyncIterable(result)) {
+    throw new Error(
+      "jsonToNodeResponse requires a non-streaming result. Use streamToNodeResponse for stream: true",
+    );
+  }
+
+  const body = JSON.stringify(toChatCompletion(result, "jsonToNodeResponse"));
+  res.writeHead(200, { "Content-Type": "application/json", ...options.headers });
+  res.write(body);
+  res.end();
 }
@@ -0,0 +1,182 @@
+/**
+ * A single buffered SSE event. `id` is the value sent in the SSE `id:` field.
+ */
+export interface BufferedStreamEvent {
+  id: string;
+  /** Event name for named events; omitted for plain data events */
+  event?: string;
+  data: string;
+}
+
+/**
+ * Storage for buffered stream events, keyed by chat `id`.
+ *
+ * A store lets a client that lost its connection mid-response reconnect with
+ * `Last-Event-ID` and receive everything it missed, followed by the rest of
+ * the live stream. Implement this interface to back resumable streams with
+ * shared storage (e.g. Redis) when running more than one server instance.
+ */
+export interface ResumableStreamStore {
+  /**
+   * Start a fresh buffer for a stream, discarding any previous buffer
+   * with the same id. Returns a generation token identifying this buffer,
+   * which the writer passes to `append` and `complete`.
+   */
+  create(streamId: string): string | Promise<string>;
+
+  /**
+   * Append an event to the buffer. Returns the assigned event id, or
+   * undefined if `generation` is no longer the current buffer (a newer
+   * response for the same id replaced it); the writer then stops.
+   */
+  append(
+    streamId: string,
+    generation: string,
+    event: Omit<BufferedStreamEvent, "id">,
+  ): string | undefined | Promise<string | undefined>;
+
+  /**
+   * Mark the stream as finished. Pass `error` if the source stream failed.
+   * Ignored if `generation` is no longer the current buffer.
+   */
+  complete(
+    streamId: string,
+    generation: string,
+    error?: unknown,
+  ): void | Promise<void>;
+
+  /**
+   * Read events after `lastEventId` (or from the start when omitted),
+   * waiting for new events until the stream completes.
+   * Returns undefined if no buffer exists for the stream.
+   */
+  read(
+    streamId: string,
+    lastEventId?: string,
+  ):
+    | AsyncIterable<BufferedStreamEvent>
+    | undefined
+    | Promise<AsyncIterable<BufferedStreamEvent> | undefined>;
+}
+
+export interface InMemoryStreamStoreOptions {
+  /**
+   * How long a completed stream stays available for resumption, in
+   * milliseconds. Defaults to 5 minutes.
+   */
+  ttlMs?: number;
+}
+
+interface StreamBuffer {
+  generation: string;
+  events: BufferedStreamEvent[];
+  done: boolean;
+  error: unknown;
+  waiters: Set<() => void>;
+  expireTimer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Resumable stream store that keeps buffers in process memory.
+ *
+ * Suitable for a single long-running server process. Serverless platforms
+ * and multi-instance deployments need a shared store instead.
+ */
+export class InMemoryStreamStore implements ResumableStreamStore {
+  #buffers = new Map<string, StreamBuffer>();
+  #ttlMs: number;
+  #generations = 0;
+
+  constructor(options: InMemoryStreamStoreOptions = {}) {
+    this.#ttlMs = options.ttlMs ?? 5 * 60 * 1000;
+  }
+
+  create(streamId: string): string {
+    const previous = this.#buffers.get(streamId);
+    if (previous) {
+      // Release readers still tailing the previous response
+      this.#finish(previous);
+    }
+    const generation = String(++this.#generations);
+    this.#buffers.set(streamId, {
+      generation,
+      events: [],
+      done: false,
+      error: undefined,
+      waiters: new Set(),
+    });
+    return generation;
+  }
+
+  append(
+    streamId: string,
+    generation: string,
+    event: Omit<BufferedStreamEvent, "id">,
+  ): string | undefined {
+    const buffer = this.#buffers.get(streamId);
+    // Replaced by a newer response for the same id
+    if (!buffer || buffer.generation !== generation) return undefined;
+    if (buffer.done) {
+      throw new Error(`No open stream buffer for id "${streamId}"`);
+    }
+    const id = String(buffer.events.length + 1);
+    buffer.events.push({ ...event, id });
+    this.#wake(buffer);
+    return id;
+  }
+
+  complete(streamId: string, generation: string, error?: unknown): void {
+    const buffer = this.#buffers.get(streamId);
+    if (!buffer || buffer.generation !== generation || buffer.done) return;
+    buffer.error = error;
+    this.#finish(buffer);
+
+    buffer.expireTimer = setTimeout(() => {
+      if (this.#buffers.get(streamId) === buffer) {
+        this.#buffers.delete(streamId);
+      }
+    }, this.#ttlMs);
+    // Don't keep Node processes alive just to expire buffers
+    (buffer.expireTimer as { unref?: () => void }).unref?.();
+  }
+
+  read(
+    streamId: string,
+    lastEventId?: string,
+  ): AsyncIterable<BufferedStreamEvent> | undefined {
+    const buffer = this.#buffers.get(streamId);
+    if (!buffer) return undefined;
+
+    // Event ids are 1-based positions, so the last seen id is the next index
+    const start = lastEventId ? Number.parseInt(lastEventId, 10) : 0;
+    return readBuffer(buffer, Number.isNaN(start) ? 0 : start);
+  }
+
+  #finish(buffer: StreamBuffer): void {
+    buffer.done = true;
+    this.#wake(buffer);
+  }
+
+  #wake(buffer: StreamBuffer): void {
+    const waiters = [...buffer.waiters];
+    buffer.waiters.clear();
+    waiters.forEach((wake) => wake());
+  }
+}
+
+async function* readBuffer(
+  buffer: StreamBuffer,
+  start: number,
+): AsyncIterable<BufferedStreamEvent> {
+  let index = start;
+  while (true) {
+    while (index < buffer.events.length) {
+      yield buffer.events[index++];
+    }
+    if (buffer.done) {
+      if (buffer.error !== undefined) throw buffer.error;
+      return;
+    }
+    await new Promise<void>((resolve) => buffer.waiters.add(resolve));
+  }
+}
@@ -0,0 +1,262 @@
+import { createServerSentEvent, type ServerSentEvent } from "./server-sent-event";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type GenericStreamChunk = Record<string, any>;
+
+/**
+ * Context passed to a tool's `execute` function.
+ */
+export interface ToolExecutionContext {
+  /** Id of the tool call being executed */
+  toolCallId: string;
+  /** Aborted when the request is cancelled */
+  signal?: AbortSignal;
+}
+
+/**
+ * A tool the model can call, executed on the server.
+ */
+export interface ToolDefinition<ARGS = unknown, RESULT = unknown> {
+  /** Function name the model uses to call the tool */
+  name: string;
+  /** What the tool does, shown to the model */
+  description?: string;
+  /** JSON Schema describing the arguments object */
+  parameters: Record<string, unknown>;
+  /**
+   * Run the tool. Strings are sent to the model as-is; other results are
+   * JSON-encoded.
+   */
+  execute: (
+    args: ARGS,
+    context: ToolExecutionContext,
+  ) => RESULT | Promise<RESULT>;
+}
+
+/**
+ * Chat Completions `tools` entry for a tool definition.
+ */
+export interface ToolParam {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+/**
+ * Tool message sent in a `tool-result` event and appended to the conversation.
+ */
+export interface ToolResultMessage {
+  role: "tool";
+  tool_call_id: string;
+  content: string;
+}
+
+/**
+ * Minimal Chat Completions message shape used by the tool loop.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type ChatMessage = Record<string, any>;
+
+interface AccumulatedToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+export interface RunToolsOptions {
+  /** Conversation so far, in Chat Completions format */
+  messages: ChatMessage[];
+  /** Tools the model may call */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tools: ToolDefinition<any, any>[];
+  /**
+   * Start one streaming model call. Called once per step with the
+   * conversation so far (including tool results), the tool params and, with
+   * `includeUsage`, the `stream_options`. Spread them into the request.
+   */
+  run: (opts: {
+    messages: ChatMessage[];
+    tools: ToolParam[];
+    stream_options?: { include_usage: true };
+  }) => Promise<AsyncIterable<GenericStreamChunk>> | AsyncIterable<GenericStreamChunk>;
+  /**
+   * Ask the model for token usage in the final chunk of each call, so
+   * `useChat` can report it in `onFinish` and `lastUsage`. Defaults to false.
+   */
+  includeUsage?: boolean;
+  /**
+   * Maximum number of model calls. Defaults to 5.
+   */
+  maxSteps?: number;
+  /** Aborts tool execution and stops the loop */
+  signal?: AbortSignal;
+}
+
+/**
+ * Define a tool that runs on the server.
+ *
+ * @example
+ * ```ts
+ * import { defineTool } from 'dedalus-react/server'
+ *
+ * const getWeather = defineTool({
+ *   name: 'getWeather',
+ *   description: 'Get the current weather for a city',
+ *   parameters: {
+ *     type: 'object',
+ *     properties: { city: { type: 'string' } },
+ *     required: ['city'],
+ *   },
+ *   execute: async ({ city }: { city: string }) => fetchWeather(city),
+ * })
+ * ```
+ */
+export function defineTool<ARGS, RESULT>(
+  tool: ToolDefinition<ARGS, RESULT>,
+): ToolDefinition<ARGS, RESULT> {
+  return tool;
+}
+
+/**
+ * Convert tool definitions to the Chat Completions `tools` format.
+ */
+export function toToolParams(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tools: ToolDefinition<any, any>[],
+): ToolParam[] {
+  return tools.map((tool) => ({
+    type: "function",
+    function: {
+      name: tool.name,
+      ...(tool.description !== undefined && { description: tool.description }),
+      parameters: tool.parameters,
+    },
+  }));
+}
+
+/**
+ * Run the model with server-side tools.
+ *
+ * Streams every model chunk, executes the tool calls of each step on the
+ * server and streams their results as `tool-result` events, then calls the
+ * model again with the results until it answers without tool calls.
+ * Pass the returned stream to `streamToWebResponse` or `streamToNodeResponse`;
+ * `useChat` adds the tool calls and tool messages to `messages`.
+ *
+ * If the model calls a tool that isn't in `tools`, the loop stops after
+ * running the known tools so the client can handle the rest with `onToolCall`.
+ *
+ * @example Next.js App Router
+ * ```ts
+ * import { runTools, streamToWebResponse } from 'dedalus-react/server'
+ *
+ * export async function POST(req: Request) {
+ *   const { messages } = await req.json()
+ *
+ *   const stream = runTools({
+ *     messages,
+ *     tools: [getWeather],
+ *     includeUsage: true,
+ *     run: (params) =>
+ *       client.chat.completions.create({
+ *         model: 'openai/gpt-4o-mini',
+ *         ...params,
+ *         stream: true,
+ *       }),
+ *   })
+ *
+ *   return streamToWebResponse(stream)
+ * }
+ * ```
+ */
+export async function* runTools(
+  options: RunToolsOptions,
+): AsyncIterable<GenericStreamChunk | ServerSentEvent<ToolResultMessage>> {
+  const { tools, run, maxSteps = 5, signal, includeUsage = false } = options;
+  const toolParams = toToolParams(tools);
+  const toolsByName = new Map(tools.map((tool) => [tool.name, tool]));
+  const messages = [...options.messages];
+
+  for (let step = 0; step < maxSteps; step++) {
+    const stream = await run({
+      messages,
+      tools: toolParams,
+      ...(includeUsage && { stream_options: { include_usage: true } }),
+    });
+
+    let content = "";
+    const toolCalls: AccumulatedToolCall[] = [];
+
+    for await (const chunk of stream) {
+      yield chunk;
+
+      const delta = chunk.choices?.[0]?.delta;
+      if (!delta) continue;
+      if (delta.content) content += delta.content;
+
+      // Accumulate tool calls (index-based merging per OpenAI spec)
+      for (const tc of delta.tool_calls ?? []) {
+        toolCalls[tc.index] ??= {
+          id: "",
+          type: "function",
+          function: { name: "", arguments: "" },
+        };
+        if (tc.id) toolCalls[tc.index].id = tc.id;
+        if (tc.function?.name) toolCalls[tc.index].function.name += tc.function.name;
+        if (tc.function?.arguments) {
+          toolCalls[tc.index].function.arguments += tc.function.arguments;
+        }
+      }
+    }
+
+    const calls = toolCalls.filter(Boolean);
+    if (calls.length === 0 || signal?.aborted) return;
+
+    messages.push({
+      role: "assistant",
+      content: content || null,
+      tool_calls: calls,
+    });
+
+    const knownCalls = calls.filter((call) => toolsByName.has(call.function.name));
+    const results = await Promise.all(
+      knownCalls.map((call) =>
+        executeToolCall(toolsByName.get(call.function.name)!, call, signal),
+      ),
+    );
+
+    for (const result of results) {
+      messages.push(result);
+      yield createServerSentEvent("tool-result", result);
+    }
+
+    // Leave tools we don't know about to the client
+    if (knownCalls.length < calls.length) return;
+  }
+}
+
+/**
+ * Execute one tool call. Failures become a JSON `{ error }` result so the
+ * model can see what went wrong.
+ */
+async function executeToolCall(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tool: ToolDefinition<any, any>,
+  call: AccumulatedToolCall,
+  signal: AbortSignal | undefined,
+): Promise<ToolResultMessage> {
+  let content: string;
+  try {
+    const args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+    const result = await tool.execute(args, { toolCallId: call.id, signal });
+    content = typeof result === "string" ? result : JSON.stringify(result ?? null);
+  } catch (error) {
+    content = JSON.stringify({
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  return { role: "tool", tool_call_id: call.id, content };
+}